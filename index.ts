@@ -1,11 +1,14 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
 
+import { EventEmitter } from 'events';
+import { isDeepStrictEqual } from 'util';
 import uuid from 'uuid/v4';
 
 import {
   JsonRpcEngine as IJsonRpcEngine,
   JsonRpcEngineNextCallback,
   JsonRpcEngineEndCallback,
+  JsonRpcError,
   JsonRpcMiddleware,
   JsonRpcRequest,
   JsonRpcResponse,
@@ -16,12 +19,41 @@ import { BaseController } from 'gaba';
 
 import {
   ICaveatFunction,
-  requireParams,
-  filterResponse,
-  forceParams,
+  builtinCaveatTypes,
+  ICaveatContext,
+  ICaveatCounter,
   ICaveatFunctionGenerator,
 } from './src/caveats';
 
+import { validateSchema } from './src/schema';
+
+import {
+  createMethodIndex,
+  getMethodKey,
+  getMethodKeyType,
+  IMethodIndex,
+} from './src/methodIndex';
+
+import { migrateState, CAPABILITY_CONTEXT, STATE_VERSION } from './src/migrations';
+
+export { createJsonFileStorageAdapter, createMemoryStorageAdapter } from './src/storage';
+
+import {
+  getGranteesFor,
+  getSubjectDetails,
+  includesSubjectDetails,
+  isOriginPattern,
+  subjectDetailsSchema,
+  SUBJECT_GROUP_PREFIX,
+} from './src/subjects';
+
+import {
+  createSigner,
+  signCapability,
+  verifyCapability,
+  ICapabilitySigner,
+} from './src/signatures';
+
 import {
   RpcCapInterface,
   RestrictedMethodMap,
@@ -29,8 +61,26 @@ import {
   AuthenticatedJsonRpcMiddleware,
   CapabilitiesConfig,
   CapabilitiesState,
+  IActivityLogConfig,
+  IActivityLogEntry,
+  IActivityLogQuery,
+  IAvailablePermission,
+  ICapabilitiesEvents,
+  IMethodDependencies,
+  IMethodSchemas,
+  ICapabilitiesEventListener,
+  ICaveatTrace,
+  IExplanation,
+  ISemanticCaveatTypeConfig,
+  ISubjectDetails,
+  ISubjectMetadata,
+  IStorageConfig,
   IOriginMetadata,
+  IPermissionsChangedNotification,
+  IPermissionsConnection,
+  IPermissionsDiff,
   IPermissionsRequest,
+  IPermissionsRequestResult,
   IRequestedPermissions,
   RpcCapDomainEntry,
   RpcCapDomainRegistry,
@@ -42,39 +92,95 @@ import {
   unauthorized,
   internalError,
   invalidReq,
+  invalidParams,
   userRejectedRequest,
   methodNotFound,
+  requestAlreadyPending,
+  serializeError,
 } from './src/errors';
 
 export type AnnotatedJsonRpcEngine = {
   domain?: IOriginString;
 } & JsonRpcEngine;
 
-import { IOcapLdCapability, IOcapLdCaveat } from './src/@types/ocap-ld';
+import { IOcapLdCapability, IOcapLdCaveat, IOcapLdProof } from './src/@types/ocap-ld';
 
 const JsonRpcEngine = require('json-rpc-engine');
 const asMiddleware = require('json-rpc-engine/src/asMiddleware');
 
+/**
+ * The callbacks settling a pending permissions request.
+ */
+type PendingApproval = {
+  resolve: (approved: IRequestedPermissions) => void;
+  reject: (reason: JsonRpcError<any>) => void;
+};
+
+/**
+ * The connections to a domain, notified when its permissions change.
+ */
+type TrackedOrigin = {
+  connections: IPermissionsConnection[];
+  // The serialized permissions the connections were last notified of.
+  permissions: string;
+};
+
+/**
+ * The capabilities of all domains by id, built from the given domains.
+ */
+type CapabilityIndex = {
+  domains: RpcCapDomainRegistry;
+  capabilities: Map<string, IOcapLdCapability>;
+};
+
+/**
+ * A permissions request waiting for, or being shown in, a prompt, along with
+ * the responses of all identical requests.
+ */
+type QueuedPermissionsRequest = {
+  request: IPermissionsRequest;
+  // A copy of the requested permissions, safe from changes by the prompt.
+  requested: IRequestedPermissions;
+  req: JsonRpcRequest<any>;
+  // The connection each responder requested through, if known.
+  responders: {
+    res: JsonRpcResponse<any>;
+    end: JsonRpcEngineEndCallback;
+    connection?: IPermissionsConnection;
+  }[];
+};
+
 class Capability implements IOcapLdCapability {
-  public '@context': string[] = ['https://github.com/MetaMask/rpc-cap'];
+  public '@context': string[] = [...CAPABILITY_CONTEXT];
   public parentCapability: string;
   public caveats: IOcapLdCaveat[] | undefined;
   public id: string;
   public date: number;
+  public expires: number | undefined;
   public invoker: IOriginString;
+  public proof: IOcapLdProof | undefined;
 
-  constructor ({ method, caveats, invoker }: {
-    method: string;
+  /**
+   * @param {Object} options
+   * @param {string} options.parentCapability - The method name, for root
+   * capabilities, or the id of the delegating capability.
+   */
+  constructor ({ parentCapability, caveats, invoker, expires }: {
+    parentCapability: string;
     caveats?: IOcapLdCaveat[];
     invoker: IOriginString;
+    expires?: number;
   }) {
-    this.parentCapability = method;
+    this.parentCapability = parentCapability;
     this.id = uuid();
     this.date = Date.now();
     this.invoker = invoker;
     if (caveats) {
       this.caveats = caveats;
     }
+    if (expires !== undefined) {
+      this.expires = expires;
+    }
   }
 
   toJSON (): IOcapLdCapability {
@@ -84,7 +190,9 @@ class Capability implements IOcapLdCapability {
       parentCapability: this.parentCapability,
       id: this.id,
       date: this.date,
+      expires: this.expires,
       caveats: this.caveats,
+      proof: this.proof,
     };
   }
 
@@ -93,29 +201,85 @@ class Capability implements IOcapLdCapability {
   }
 }
 
+/**
+ * The time in milliseconds within which further calls of a subject do not
+ * update its `lastUsed` timestamp.
+ */
+const LAST_USED_INTERVAL = 60 * 1000;
+
+/**
+ * Checks whether the given expiration date has passed.
+ *
+ * @param {number} [expires] - The expiration date, in UNIX epoch time.
+ * @param {number} now - The current time, in UNIX epoch time.
+ */
+function isExpired (expires: number | undefined, now: number = Date.now()): boolean {
+  return typeof expires === 'number' && expires <= now;
+}
+
 export class CapabilitiesController extends BaseController<any, any> implements RpcCapInterface {
   private safeMethods: string[];
   private restrictedMethods: RestrictedMethodMap;
+  private methodIndex: IMethodIndex;
   private requestUserApproval: UserApprovalPrompt;
   private internalMethods: { [methodName: string]: AuthenticatedJsonRpcMiddleware };
-  private caveats: { [ name: string]: ICaveatFunctionGenerator } = { requireParams, filterResponse, forceParams };
+  private caveatTypes: { [type: string]: ISemanticCaveatTypeConfig } = {};
   private methodPrefix: string;
   private engine: JsonRpcEngine | undefined;
+  private signer: ICapabilitySigner | undefined;
+  private activityLogConfig: IActivityLogConfig | undefined;
+  private approvalTimeout: CapabilitiesConfig['approvalTimeout'];
+  private pendingApprovals: { [requestId: string]: PendingApproval } = {};
+  private permissionsRequestQueues: { [origin: string]: QueuedPermissionsRequest[] } = {};
+  private maxPendingPermissionsRequests: number;
+  private emitter = new EventEmitter();
+  private trackedOrigins: { [origin: string]: TrackedOrigin } = {};
+  // The connections of bound middleware, by the metadata they are bound to.
+  private metadataConnections = new WeakMap<IOriginMetadata, IPermissionsConnection>();
+  private storage: IStorageConfig | undefined;
+  private saveTimeout: ReturnType<typeof setTimeout> | undefined;
+  private capabilityIndex: CapabilityIndex | undefined;
 
   constructor (config: CapabilitiesConfig, state?: Partial<CapabilitiesState>) {
-    super(config, state || {});
+    super(config, migrateState(state));
 
     this.safeMethods = config.safeMethods || [];
     this.restrictedMethods = config.restrictedMethods || {};
+    this.methodIndex = createMethodIndex(
+      Object.keys(this.restrictedMethods), config.methodSeparator
+    );
     this.methodPrefix = config.methodPrefix || '';
     this.engine = config.engine || undefined;
+    this.signer = config.signing ? createSigner(config.signing) : undefined;
+    this.activityLogConfig = config.activityLog;
+    this.approvalTimeout = config.approvalTimeout;
+    this.maxPendingPermissionsRequests = config.maxPendingPermissionsRequests || 1;
 
     if (!config.requestUserApproval) {
       throw new Error('User approval prompt required.');
     }
     this.requestUserApproval = config.requestUserApproval;
 
+    Object.keys(this.restrictedMethods).forEach((methodName) => {
+      const { required = [], optional = [] } = this.restrictedMethods[methodName].dependencies || {};
+      [...required, ...optional].forEach((dependency) => {
+        if (!this.getMethodKeyFor(dependency)) {
+          throw new Error(`Unknown dependency '${dependency}' of restricted method '${methodName}'.`);
+        }
+      });
+    });
+
+    Object.keys(builtinCaveatTypes).forEach((type) => {
+      this.registerCaveatType(type, builtinCaveatTypes[type]);
+    });
+
+    const { semanticCaveatTypes = {} } = config;
+    Object.keys(semanticCaveatTypes).forEach((type) => {
+      this.registerCaveatType(type, semanticCaveatTypes[type]);
+    });
+
     this.defaultState = {
+      version: STATE_VERSION,
       permissionsRequests: [],
       permissionsDescriptions: Object.keys(
         this.restrictedMethods
@@ -130,22 +294,137 @@ export class CapabilitiesController extends BaseController<any, any> implements
     this.internalMethods = {};
     this.internalMethods[`${this.methodPrefix}getPermissions`] = this.getPermissionsMiddleware.bind(this);
     this.internalMethods[`${this.methodPrefix}requestPermissions`] = this.requestPermissionsMiddleware.bind(this);
+    this.internalMethods[`${this.methodPrefix}delegatePermissions`] = this.delegatePermissionsMiddleware.bind(this);
+    this.internalMethods[`${this.methodPrefix}revokePermissions`] = this.revokePermissionsMiddleware.bind(this);
+    this.internalMethods[`${this.methodPrefix}getAvailablePermissions`] = this.getAvailablePermissionsMiddleware.bind(this);
 
     this.initialize();
+
+    if (this.signer) {
+      this._removeUnverifiedPermissions();
+    }
+
+    // Subscribed after initialization, so that only changes are saved:
+    this.storage = config.storage;
+    if (this.storage) {
+      this.subscribe(() => this._scheduleSave());
+    }
   }
 
   serialize (): any {
     return this.state;
   }
 
+  /**
+   * Replaces the state with the state stored by the storage adapter,
+   * migrating it like an initState. Pending permissions requests are kept.
+   * Resolves true if a state was loaded. If none is stored, or loading it
+   * fails, the current state is kept and false is resolved, and failures
+   * are reported with a `storageError` event.
+   */
+  loadFromStorage (): Promise<boolean> {
+    if (!this.storage) {
+      return Promise.reject(new Error('No storage adapter configured.'));
+    }
+    const { adapter } = this.storage;
+
+    return adapter.transaction(() => adapter.load())
+      .then((stored) => {
+        if (!stored) {
+          return false;
+        }
+        this.update({
+          ...this.defaultState,
+          ...migrateState(stored),
+          permissionsRequests: this.getPermissionsRequests(),
+        }, true);
+        if (this.signer) {
+          this._removeUnverifiedPermissions();
+        }
+        this._notifyPermissionsChanges();
+        return true;
+      })
+      .catch((error) => {
+        this._emit('storageError', { operation: 'load', error });
+        return false;
+      });
+  }
+
+  /**
+   * Saves the current state with the storage adapter right away, instead of
+   * after the debounce delay, e.g. before shutting down.
+   * Rejects if saving fails.
+   */
+  flushStorage (): Promise<void> {
+    if (!this.storage) {
+      return Promise.resolve();
+    }
+    if (this.saveTimeout !== undefined) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = undefined;
+    }
+    const { adapter } = this.storage;
+    return adapter.transaction(() => adapter.save(this.serialize()));
+  }
+
+  /**
+   * Internal function used to save the state once the debounce delay
+   * passed, along with all other changes made in the meantime.
+   */
+  private _scheduleSave (): void {
+    if (!this.storage || this.saveTimeout !== undefined) {
+      return;
+    }
+    const { debounce = 100 } = this.storage;
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = undefined;
+      this.flushStorage().catch((error) => {
+        this._emit('storageError', { operation: 'save', error });
+      });
+    }, debounce);
+  }
+
+  /**
+   * Registers a caveat type, making it available to new and existing
+   * permissions. Replaces any caveat type already registered as `type`.
+   *
+   * @param {string} type - The type name, used as the `type` of caveats.
+   * @param {ISemanticCaveatTypeConfig} caveatType - The caveat function
+   * generator, and optionally the restricted methods it may be attached to
+   * and the schema of its values.
+   */
+  registerCaveatType (type: string, caveatType: ISemanticCaveatTypeConfig): void {
+    if (!type || typeof type !== 'string') {
+      throw new Error('Caveat type must be a non-empty string.');
+    }
+    if (!caveatType || typeof caveatType.generator !== 'function') {
+      throw new Error(`Caveat type '${type}' requires a generator function.`);
+    }
+    this.caveatTypes[type] = caveatType;
+  }
+
   /**
    * Returns a capabilities middleware function bound to its parent
    * CapabilitiesController object with the given domain as its
    * first argument.
    * @param  {string} domain the domain to bind the middleware to
+   * @param  {ISubjectDetails} [details] details of the subject behind the domain,
+   * stored with its permissions
+   * @param  {IPermissionsConnection} [connection] the connection to the domain,
+   * like the engine the middleware is added to, to notify of permission changes
    */
-  createBoundMiddleware (domain: string): PermittedJsonRpcMiddleware {
-    return this.providerMiddlewareFunction.bind(this, { origin: domain });
+  createBoundMiddleware (
+    domain: string,
+    details?: ISubjectDetails,
+    connection?: IPermissionsConnection
+  ): PermittedJsonRpcMiddleware {
+    this._validateSubjectDetails(details || {});
+    const metadata: IOriginMetadata = { ...details, origin: domain };
+    if (connection) {
+      this.trackConnection(domain, connection);
+      this.metadataConnections.set(metadata, connection);
+    }
+    return this.providerMiddlewareFunction.bind(this, metadata);
   }
 
   /**
@@ -153,27 +432,108 @@ export class CapabilitiesController extends BaseController<any, any> implements
    * the given domain as its first argument.
    * See createBoundMiddleware for more information.
    * @param  {string} domain the domain to bind the middleware to
+   * @param  {ISubjectDetails} [details] details of the subject behind the domain
+   * @param  {boolean} [track] whether to notify the engine of permission changes,
+   * until it is untracked with untrackConnection
    */
-  createPermissionedEngine (domain: string): IJsonRpcEngine {
+  createPermissionedEngine (
+    domain: string,
+    details?: ISubjectDetails,
+    track = false
+  ): IJsonRpcEngine {
     const engine = new JsonRpcEngine();
-    engine.push(this.createBoundMiddleware(domain));
+    engine.push(this.createBoundMiddleware(domain, details, track ? engine : undefined));
     return engine;
   }
 
+  /**
+   * Notifies the given connection with a `permissionsChanged` notification
+   * (prefixed with the methodPrefix) whenever the permissions returned by
+   * getPermissions for the given domain change.
+   *
+   * @param {string} origin - The domain at the other end of the connection.
+   * @param {IPermissionsConnection} connection - The connection, like an engine.
+   */
+  trackConnection (origin: string, connection: IPermissionsConnection): void {
+    const tracked = this.trackedOrigins[origin] || {
+      connections: [],
+      permissions: JSON.stringify(this.getPermissionsForDomain(origin)),
+    };
+    if (!tracked.connections.includes(connection)) {
+      tracked.connections.push(connection);
+    }
+    this.trackedOrigins[origin] = tracked;
+  }
+
+  /**
+   * Stops notifying the given connection of the given domain, or all of its
+   * connections if none is given, e.g. when the connection closes.
+   * The pending permissions requests made through the untracked connections
+   * are rejected, as they can no longer be answered.
+   *
+   * @param {string} origin - The domain at the other end of the connection.
+   * @param {IPermissionsConnection} [connection] - The connection to untrack.
+   */
+  untrackConnection (origin: string, connection?: IPermissionsConnection): void {
+    const tracked = this.trackedOrigins[origin];
+    const untracked = connection ? [connection] : tracked?.connections || [];
+    if (tracked) {
+      tracked.connections = tracked.connections.filter(c => !untracked.includes(c));
+      if (tracked.connections.length === 0) {
+        delete this.trackedOrigins[origin];
+      }
+    }
+    this._rejectPermissionsRequests(
+      origin, ({ connection: c }) => Boolean(c && untracked.includes(c))
+    );
+  }
+
+  /**
+   * Internal function used to notify the connections of every tracked
+   * domain whose permissions changed since they were last notified.
+   * Called after every change of the domains or subject groups.
+   */
+  private _notifyPermissionsChanges (): void {
+    Object.keys(this.trackedOrigins).forEach((origin) => {
+      const tracked = this.trackedOrigins[origin];
+      const permissions = this.getPermissionsForDomain(origin);
+      const serialized = JSON.stringify(permissions);
+      if (serialized === tracked.permissions) {
+        return;
+      }
+
+      tracked.permissions = serialized;
+      const notification: IPermissionsChangedNotification = {
+        jsonrpc: '2.0',
+        method: `${this.methodPrefix}permissionsChanged`,
+        params: [permissions],
+      };
+      tracked.connections.forEach((connection) => {
+        connection.emit('notification', notification);
+      });
+    });
+  }
+
   /**
    * Returns a nearly json-rpc-engine compatible method.
    * The one difference being the first argument should be
    * a unique string identifying the requesting agent/entity,
    * referred to as `domain` in the code. This allows the function
    * to be curried and converted into a normal json-rpc-middleware function.
+   *
+   * Batch requests are authorized item by item, see _handleBatch.
    */
   providerMiddlewareFunction (
     domain: IOriginMetadata,
-    req: JsonRpcRequest<any>,
+    req: JsonRpcRequest<any> | JsonRpcRequest<any>[],
     res: JsonRpcResponse<any>,
     next: JsonRpcEngineNextCallback,
     end: JsonRpcEngineEndCallback,
   ): void {
+    if (Array.isArray(req)) {
+      return this._handleBatch(domain, req, res, end);
+    }
+
     const methodName = req.method;
 
     // skip registered safe/passthrough methods.
@@ -206,52 +566,102 @@ export class CapabilitiesController extends BaseController<any, any> implements
       return end(res.error);
     }
 
+    this._recordSubjectUse(domain);
     this.executeMethod(domain, req, res, next, end);
   }
 
+  /**
+   * Internal function used to handle a batch request, given to the
+   * provider middleware function as a single array. Each item is handled
+   * independently by a virtual engine of the domain, as if requested on its
+   * own, and the responses are returned as the result, in order.
+   * Items failing authorization or validation get error responses, without
+   * affecting the other items.
+   * Safe items can only be passed to the configured engine, as the items
+   * cannot be passed down the middleware chain on their own. Without an
+   * engine, they fail with an internal error.
+   * The responses are packed into the result of the given response, which
+   * is not a standard JSON-RPC batch response, for the caller to unpack.
+   */
+  private _handleBatch (
+    domain: IOriginMetadata,
+    requests: JsonRpcRequest<any>[],
+    res: JsonRpcResponse<any>,
+    end: JsonRpcEngineEndCallback,
+  ): void {
+    if (requests.length === 0) {
+      res.error = invalidReq({ message: 'Empty batch request.', data: requests });
+      return end(res.error);
+    }
+
+    const engine = this.createVirtualEngineFor(domain);
+    const responses = requests.map((request) => {
+      return new Promise<JsonRpcResponse<any>>((resolve) => {
+        if (!request || typeof request !== 'object' || Array.isArray(request)) {
+          resolve({
+            id: undefined,
+            jsonrpc: '2.0',
+            error: serializeError(invalidReq({ data: request })),
+          });
+          return;
+        }
+
+        if (!this.engine && this.safeMethods.includes(request.method)) {
+          resolve({
+            id: request.id,
+            jsonrpc: request.jsonrpc,
+            error: serializeError(internalError({
+              message: `Safe method '${request.method}' cannot be handled in a batch request without an engine.`,
+              data: request,
+            })),
+          });
+          return;
+        }
+
+        engine.handle(request, (err, response) => {
+          // errors of the engine itself are not set on the response
+          if (err && !response.error) {
+            response.error = serializeError(err);
+            delete response.result;
+          }
+          resolve(response);
+        });
+      });
+    });
+
+    Promise.all(responses).then((result) => {
+      res.result = result;
+      end();
+    });
+  }
+
   /**
    * Used for retrieving the key that manages the restricted method
    * associated with the current RPC `method` key.
    *
    * Used to support our namespaced method feature, which allows blocks
-   * of methods to be hidden behind a restricted method with a trailing `_` character.
+   * of methods to be hidden behind a restricted method with a trailing `_` character,
+   * or the configured `methodSeparator`. See `getMethodKey` for the precedence
+   * between exact, namespace and wildcard keys.
    *
    * @param method string - The requested rpc method.
    * @returns methodKey string
    */
   getMethodKeyFor (method: string): string {
-    const managedMethods: string[] = Object.keys(this.restrictedMethods);
-
-    // Return exact matches:
-    if (managedMethods.includes(method)) {
-      return method;
-    }
-
-    const wildCardMethodsWithoutWildCard = managedMethods.reduce<{[key: string]: boolean}>(
-      (acc, methodName) => {
-        const wildCardMatch = methodName.match(/(.+)\*$/);
-        return wildCardMatch ? { ...acc, [wildCardMatch[1]]: true } : acc;
-      },
-      {});
-
-    // Check for potentially nested namespaces:
-    // Ex: wildzone_
-    // Ex: eth_plugin_
-
-    const segments = method.split('_');
-    let managed = '';
+    return getMethodKey(this.methodIndex, method);
+  }
 
-    while (segments.length > 0 && !managedMethods.includes(managed) && !wildCardMethodsWithoutWildCard[managed]) {
-      managed += segments.shift() + '_';
-    }
 
-    if (managedMethods.includes(managed)) {
-      return managed;
-    } else if (wildCardMethodsWithoutWildCard[managed]) {
-      return managed + '*';
-    } else {
-      return '';
-    }
+  /**
+   * Gets the restricted methods the given method depends on, as declared by
+   * the restricted method entry managing it.
+   *
+   * @param {string} method - The method whose dependencies to get.
+   */
+  getMethodDependencies (method: string): Required<IMethodDependencies> {
+    const entry = this.restrictedMethods[this.getMethodKeyFor(method)];
+    const { required = [], optional = [] } = entry?.dependencies || {};
+    return { required, optional };
   }
 
   executeMethod (
@@ -263,170 +673,995 @@ export class CapabilitiesController extends BaseController<any, any> implements
   ): void {
     const methodKey = this.getMethodKeyFor(req.method);
     const permission = this.getPermission(domain.origin, req.method);
+
+    const logInvocation = (outcome: 'success' | 'failure'): void => {
+      this._logActivity({
+        type: 'invocation',
+        origin: domain.origin,
+        method: req.method,
+        capabilityId: permission?.id,
+        outcome,
+        params: this.activityLogConfig?.includeParams ? req.params : undefined,
+      });
+    };
+    const _next: JsonRpcEngineNextCallback = (returnHandler) => {
+      logInvocation('success');
+      next(returnHandler);
+    };
+    const _end: JsonRpcEngineEndCallback = (err) => {
+      logInvocation(err || res.error ? 'failure' : 'success');
+      end(err);
+    };
+
     if (methodKey && typeof this.restrictedMethods[methodKey].method === 'function') {
       const virtualEngine = this.createVirtualEngineFor(domain);
 
+      // Params are validated before caveats compare or replace them:
+      const paramsError = this._getParamsError(methodKey, req);
+      if (paramsError) {
+        res.error = paramsError;
+        return _end(res.error);
+      }
+
+      const caveats = permission ? this._getChainCaveats(permission) : [];
+
       // Check for Caveats:
-      if (permission?.caveats && permission.caveats.length > 0) {
+      if (caveats.length > 0) {
         const engine: IJsonRpcEngine = new JsonRpcEngine();
 
-        permission.caveats.forEach((serializedCaveat: IOcapLdCaveat) => {
-          const caveatFnGens = this.caveats;
-          const caveatFnGen: ICaveatFunctionGenerator = caveatFnGens[serializedCaveat.type];
-          const caveatFn: ICaveatFunction = caveatFnGen(serializedCaveat);
+        // caveats of unregistered types can not be enforced
+        const unknown = caveats.find(({ caveat }) => !this.caveatTypes[caveat.type]);
+        if (unknown) {
+          res.error = internalError({
+            message: `Unknown caveat type: '${unknown.caveat.type}'.`,
+            data: unknown.caveat,
+          });
+          return _end(res.error);
+        }
+
+        caveats.forEach(({ caveat, capability }) => {
+          const caveatFnGen: ICaveatFunctionGenerator = this.caveatTypes[caveat.type].generator;
+          const caveatFn: ICaveatFunction = caveatFnGen(
+            caveat, this._getCaveatContext(capability.id, caveat)
+          );
           engine.push(caveatFn);
         });
 
         engine.push((req, res, next, end) => {
-          return this.restrictedMethods[methodKey].method(req, res, next, end, virtualEngine);
+          return this._invokeMethod(methodKey, req, res, next, end, virtualEngine);
         });
 
         const middleware: JsonRpcMiddleware = asMiddleware(engine);
-        return middleware(req, res, next, end);
+        return middleware(req, res, _next, _end);
 
       } else {
-        return this.restrictedMethods[methodKey].method(req, res, next, end, virtualEngine);
+        return this._invokeMethod(methodKey, req, res, _next, _end, virtualEngine);
       }
     }
 
     res.error = methodNotFound({ methodName: req.method, data: req });
-    return end(res.error);
+    return _end(res.error);
   }
 
-  createVirtualEngineFor (domain: IOriginMetadata): AnnotatedJsonRpcEngine {
-    const engine: AnnotatedJsonRpcEngine = new JsonRpcEngine();
-    engine.push(this.providerMiddlewareFunction.bind(this, domain));
-
-    /**
-     * If an engine was provided, it is used as the final step
-     * for the middleware provider.
-     */
-    if (this.engine) {
-      engine.push(asMiddleware(this.engine));
+  /**
+   * Gets the schemas that the params and result of the given method must
+   * match, as declared by the restricted method entry managing it.
+   *
+   * @param {string} method - The method whose schemas to get.
+   */
+  getMethodSchemas (method: string): IMethodSchemas {
+    const entry = this.restrictedMethods[this.getMethodKeyFor(method)];
+    const schemas: IMethodSchemas = {};
+    if (entry?.paramsSchema) {
+      schemas.paramsSchema = entry.paramsSchema;
     }
-
-    engine.domain = domain.origin;
-    return engine;
-  }
-
-  getPermissionsForDomain (domain: string): IOcapLdCapability[] {
-    const { domains = {} } = this.state;
-    if (domains[domain]) {
-      const { permissions } = domains[domain];
-      return permissions;
+    if (entry?.resultSchema) {
+      schemas.resultSchema = entry.resultSchema;
     }
-    return [];
+    return schemas;
   }
 
   /**
-   * Get the parent-most permission granting the requested domain's method permission.
-   * Follows the delegation chain of the first matching permission found.
-   *
-   * @param {string} domain - The domain whose permission to retrieve.
-   * @param {string} method - The method
+   * Internal function used to validate the params of a request against the
+   * params schema of its restricted method key, if any.
+   * Returns an invalid params error naming the failing field, if any.
    */
-  getPermission (domain: string, method: string): IOcapLdCapability | undefined {
-    const permissions = this.getPermissionsForDomain(domain).filter(p => {
-      return p.parentCapability === method;
-    });
-    if (permissions.length > 0) {
-      return permissions.shift();
+  private _getParamsError (
+    methodKey: string,
+    req: JsonRpcRequest<any>
+  ): JsonRpcError<any> | undefined {
+    const { paramsSchema } = this.restrictedMethods[methodKey];
+    const error = paramsSchema && validateSchema(req.params, paramsSchema, 'params');
+    if (!error) {
+      return undefined;
     }
-
-    return undefined;
+    return invalidParams({
+      message: `Invalid params for method '${req.method}': '${error.path}' ${error.message}.`,
+      data: { path: error.path, request: req },
+    });
   }
 
   /**
-   * Gets current permissions request objects.
-   * Useful for displaying information for user consent.
+   * Internal function used to invoke a restricted method, failing with an
+   * internal error if it ends with a result not matching its result schema.
    */
-  getPermissionsRequests (): IPermissionsRequest[] {
-    const reqs = this.state.permissionsRequests;
-    return reqs || [];
+  private _invokeMethod (
+    methodKey: string,
+    req: JsonRpcRequest<any>,
+    res: JsonRpcResponse<any>,
+    next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+    virtualEngine: JsonRpcEngine
+  ): void {
+    const { method, resultSchema } = this.restrictedMethods[methodKey];
+
+    const _end: JsonRpcEngineEndCallback = (err) => {
+      const error = !err && !res.error && resultSchema &&
+        validateSchema(res.result, resultSchema, 'result');
+      if (error) {
+        delete res.result;
+        res.error = internalError({
+          message: `Invalid result of method '${req.method}': '${error.path}' ${error.message}.`,
+          data: { path: error.path },
+        });
+        return end(res.error);
+      }
+      return end(err);
+    };
+
+    return method(req, res, next, _end, virtualEngine);
   }
 
   /**
-   * Used for removing a permissions request from the permissions request array.
-   *
-   * @param request The request that no longer requires user attention.
+   * Internal function used to get the caveats binding the given permission.
+   * Delegated permissions are bound by the caveats of their whole chain.
+   * The caveats of the given permission come first and those of the root
+   * last, so that the checks of a delegator see the params as changed by
+   * its delegatees, which therefore cannot loosen them.
    */
-  removePermissionsRequest (requestId: string): void {
-    const reqs = this.getPermissionsRequests().filter((oldReq) => {
-      return oldReq.metadata.id !== requestId;
+  private _getChainCaveats (
+    permission: IOcapLdCapability
+  ): { caveat: IOcapLdCaveat; capability: IOcapLdCapability }[] {
+    const caveats: { caveat: IOcapLdCaveat; capability: IOcapLdCapability }[] = [];
+    this.getCapabilityChain(permission).reverse().forEach((capability) => {
+      (capability.caveats || []).forEach((caveat) => {
+        caveats.push({ caveat, capability });
+      });
     });
-    this.setPermissionsRequests(reqs);
-  }
-
-  setPermissionsRequests (
-    permissionsRequests: IPermissionsRequest[]
-  ): void {
-    this.update({ permissionsRequests });
+    return caveats;
   }
 
   /**
-   * Used for granting a new set of permissions,
-   * after the user has approved it.
+   * Explains how the given request of the given origin would be handled, by
+   * taking the same decisions as providerMiddlewareFunction and
+   * executeMethod, without invoking the restricted method.
+   * Caveats run on a copy of the request, with read-only counters, and are
+   * traced one by one. Nothing is logged, emitted or persisted.
    *
-   * @param {string} domain - The domain receiving new permissions.
-   * @param {IRequestedPermissions} approvedPermissions - An object of objects describing the granted permissions.
-   * @param {JsonRpcResponse} res - The response.
-   * @param {JsonRpcEngineEndCallback} end - The end function.
+   * @param {string} origin - The origin of the request.
+   * @param {JsonRpcRequest} request - The request to explain.
    */
-  grantNewPermissions (
-    domain: string,
-    approved: IRequestedPermissions,
-    res: JsonRpcResponse<any>,
-    end: JsonRpcEngineEndCallback
-  ): void {
-
-    if (!domain || typeof domain !== 'string') {
-      res.error = invalidReq(`Invalid domain: '${domain}'.`);
-      return end(res.error);
+  explain (origin: string, request: Partial<JsonRpcRequest<any>>): Promise<IExplanation> {
+    if (!request || typeof request.method !== 'string') {
+      return Promise.reject(invalidReq({ data: request }));
     }
 
-    // Enforce actual approving known methods:
-    for (const methodName in approved) {
-      if (!this.getMethodKeyFor(methodName)) {
-        res.error = methodNotFound({ methodName });
-        return end(res.error);
+    const req = JSON.parse(JSON.stringify({ jsonrpc: '2.0', ...request }));
+    const methodKey = this.getMethodKeyFor(req.method) || undefined;
+    const explanation: IExplanation = {
+      origin,
+      method: req.method,
+      decision: 'allowed',
+      allowed: false,
+      methodKey,
+      caveats: [],
+    };
+    const conclude = (
+      decision: IExplanation['decision'],
+      error?: JsonRpcError<any>
+    ): Promise<IExplanation> => {
+      explanation.decision = decision;
+      explanation.allowed = !error;
+      if (error) {
+        explanation.error = serializeError(error);
       }
+      return Promise.resolve(explanation);
+    };
+
+    if (this.safeMethods.includes(req.method)) {
+      return conclude('safe');
+    }
+    if (this.internalMethods[req.method]) {
+      return conclude('internal');
+    }
+    if (!methodKey || typeof this.restrictedMethods[methodKey].method !== 'function') {
+      return conclude('methodNotFound', methodNotFound({ methodName: req.method, data: req }));
     }
 
-    const permissions: { [methodName: string]: IOcapLdCapability } = {};
+    const permission = this.getPermission(origin, req.method);
+    if (!permission) {
+      return conclude('unauthorized', unauthorized({ data: req }));
+    }
+    explanation.capability = permission;
 
-    for (const method in approved) {
+    const paramsError = this._getParamsError(methodKey, req);
+    if (paramsError) {
+      return conclude('invalidParams', paramsError);
+    }
 
-      const newPerm = new Capability({
-        method,
-        invoker: domain,
-        caveats: approved[method].caveats,
-      });
+    const caveats = this._getChainCaveats(permission);
+    const unknown = caveats.find(({ caveat }) => !this.caveatTypes[caveat.type]);
+    if (unknown) {
+      return conclude('denied', internalError({
+        message: `Unknown caveat type: '${unknown.caveat.type}'.`,
+        data: unknown.caveat,
+      }));
+    }
 
-      if (newPerm.caveats && !this.validateCaveats(newPerm.caveats)) {
+    const res: JsonRpcResponse<any> = { id: req.id, jsonrpc: req.jsonrpc };
+    return caveats.reduce<Promise<boolean>>((proceed, { caveat, capability }) => {
+      return proceed.then((shouldProceed) => {
+        const trace: ICaveatTrace = {
+          type: caveat.type,
+          name: caveat.name,
+          capabilityId: capability.id,
+          outcome: 'skipped',
+        };
+        explanation.caveats.push(trace);
+        if (!shouldProceed) {
+          return false;
+        }
 
-        res.error = internalError({
-          message: 'Invalid caveats.',
-          data: newPerm,
+        const paramsBefore = JSON.stringify(req.params);
+        return this._traceCaveat(caveat, capability.id, req, res).then(({ passed, returnHandler }) => {
+          trace.params = req.params === undefined
+            ? undefined
+            : JSON.parse(JSON.stringify(req.params));
+          if (res.error) {
+            trace.outcome = 'fail';
+            trace.error = serializeError(res.error);
+          } else if (JSON.stringify(req.params) !== paramsBefore) {
+            trace.outcome = 'transform';
+            trace.transformed = 'params';
+          } else if (returnHandler || !passed) {
+            // caveats ending the request without error provide the response
+            trace.outcome = 'transform';
+            trace.transformed = 'response';
+          } else {
+            trace.outcome = 'pass';
+          }
+          return passed && !res.error;
         });
+      });
+    }, Promise.resolve(true))
+      .then(() => {
+        explanation.params = req.params;
+        return res.error ? conclude('denied', res.error) : conclude('allowed');
+      });
+  }
 
-        return end(res.error);
-      }
-
-      permissions[method] = newPerm;
-    }
+  /**
+   * Internal function used to run a single caveat function for explain,
+   * with counters that can be read, but not changed.
+   */
+  private _traceCaveat (
+    caveat: IOcapLdCaveat,
+    capabilityId: string,
+    req: JsonRpcRequest<any>,
+    res: JsonRpcResponse<any>
+  ): Promise<{ passed: boolean; returnHandler: boolean }> {
+    const context: ICaveatContext = {
+      ...this._getCaveatContext(capabilityId, caveat),
+      setCounter: () => undefined,
+    };
 
-    this.addPermissionsFor(domain, permissions);
-    res.result = this.getPermissionsForDomain(domain);
-    end();
+    return new Promise((resolve) => {
+      try {
+        const caveatFn = this.caveatTypes[caveat.type].generator(caveat, context);
+        caveatFn(
+          req,
+          res,
+          returnHandler => resolve({ passed: true, returnHandler: Boolean(returnHandler) }),
+          (err) => {
+            if (err && !res.error) {
+              res.error = err;
+            }
+            resolve({ passed: false, returnHandler: false });
+          }
+        );
+      } catch (err) {
+        res.error = internalError({ message: err.message, data: caveat });
+        resolve({ passed: false, returnHandler: false });
+      }
+    });
   }
 
-  getDomains (): RpcCapDomainRegistry {
+  /**
+   * Internal function used to give caveat functions access to the persisted
+   * counters of their caveat. Counters are keyed by the caveat's name, or by
+   * its type if it has no name.
+   */
+  private _getCaveatContext (
+    capabilityId: string,
+    caveat: IOcapLdCaveat
+  ): ICaveatContext {
+    const key = caveat.name || caveat.type;
+    return {
+      capabilityId,
+      getCounter: (): ICaveatCounter | undefined => this.getCaveatCounters(capabilityId)[key],
+      setCounter: (counter: ICaveatCounter): void => {
+        const caveatCounters = { ...this.state.caveatCounters };
+        caveatCounters[capabilityId] = {
+          ...caveatCounters[capabilityId],
+          [key]: counter,
+        };
+        this.update({ caveatCounters });
+      },
+    };
+  }
+
+  /**
+   * Gets the persisted caveat counters of the given capability, keyed by
+   * caveat name, or by caveat type for unnamed caveats.
+   *
+   * @param {string} capabilityId - The id of the capability.
+   */
+  getCaveatCounters (capabilityId: string): { [caveatKey: string]: ICaveatCounter } {
+    const { caveatCounters = {} } = this.state;
+    return caveatCounters[capabilityId] || {};
+  }
+
+  /**
+   * Resets the persisted caveat counters of the given capability.
+   *
+   * @param {string} capabilityId - The id of the capability.
+   * @param {string} [caveatKey] - The name, or type for unnamed caveats, of
+   * the caveat whose counter to reset. Resets all counters if omitted.
+   */
+  resetCaveatCounters (capabilityId: string, caveatKey?: string): void {
+    const caveatCounters = { ...this.state.caveatCounters };
+    if (caveatKey && caveatCounters[capabilityId]) {
+      caveatCounters[capabilityId] = { ...caveatCounters[capabilityId] };
+      delete caveatCounters[capabilityId][caveatKey];
+    } else {
+      delete caveatCounters[capabilityId];
+    }
+    this.update({ caveatCounters });
+  }
+
+  /**
+   * Internal function used to record an activity, if the activity log is
+   * enabled. Drops the oldest entries beyond the configured maximum.
+   */
+  private _logActivity (
+    entry: Omit<IActivityLogEntry, 'id' | 'timestamp'>
+  ): void {
+    if (!this.activityLogConfig) {
+      return;
+    }
+
+    const { maxEntries = 1000 } = this.activityLogConfig;
+    const newEntry: IActivityLogEntry = { ...entry, id: uuid(), timestamp: Date.now() };
+    if (newEntry.params === undefined) {
+      delete newEntry.params;
+    }
+
+    const activityLog = [ ...this.state.activityLog || [], newEntry ];
+    this.update({ activityLog: activityLog.slice(-maxEntries) });
+  }
+
+  /**
+   * Internal function used to record an activity for each of the given
+   * permissions of a domain.
+   */
+  private _logPermissions (
+    type: 'grant' | 'revoke' | 'caveatAdded' | 'caveatUpdated',
+    origin: string,
+    permissions: IOcapLdCapability[]
+  ): void {
+    permissions.forEach((perm) => {
+      this._logActivity({
+        type,
+        origin,
+        method: this.getMethodForCapability(perm),
+        capabilityId: perm.id,
+        outcome: 'success',
+      });
+    });
+  }
+
+  /**
+   * Internal function used to record a rejected permissions request, once
+   * for each requested method.
+   */
+  private _logRejectedRequest (
+    origin: string,
+    permissions: IRequestedPermissions
+  ): void {
+    Object.keys(permissions).forEach((method) => {
+      this._logActivity({
+        type: 'requestRejected',
+        origin,
+        method,
+        outcome: 'failure',
+      });
+    });
+  }
+
+  /**
+   * Gets the recorded activities matching the given query, oldest first.
+   *
+   * @param {IActivityLogQuery} [query] - The conditions entries must match.
+   */
+  getActivityLog (query: IActivityLogQuery = {}): IActivityLogEntry[] {
+    const { activityLog = [] } = this.state;
+    const { origin, method, from, to } = query;
+
+    return activityLog.filter((entry: IActivityLogEntry) => {
+      return (
+        (origin === undefined || entry.origin === origin) &&
+        (method === undefined || entry.method === method) &&
+        (from === undefined || entry.timestamp >= from) &&
+        (to === undefined || entry.timestamp <= to)
+      );
+    });
+  }
+
+  /**
+   * Removes all recorded activities.
+   */
+  clearActivityLog (): void {
+    this.update({ activityLog: [] });
+  }
+
+  /**
+   * Adds a listener for the given permission lifecycle event.
+   *
+   * @param {string} event - The name of the event.
+   * @param {Function} listener - Called with the event's payload.
+   */
+  on<E extends keyof ICapabilitiesEvents> (
+    event: E,
+    listener: ICapabilitiesEventListener<E>
+  ): void {
+    this.emitter.on(event, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`.
+   *
+   * @param {string} event - The name of the event.
+   * @param {Function} listener - The listener to remove.
+   */
+  off<E extends keyof ICapabilitiesEvents> (
+    event: E,
+    listener: ICapabilitiesEventListener<E>
+  ): void {
+    this.emitter.removeListener(event, listener);
+  }
+
+  /**
+   * Internal function used to emit a permission lifecycle event.
+   */
+  private _emit<E extends keyof ICapabilitiesEvents> (
+    event: E,
+    payload: ICapabilitiesEvents[E]
+  ): void {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Internal function used to emit an event for the given permissions of a
+   * domain, if there are any.
+   */
+  private _emitPermissions (
+    event: 'permissionsGranted' | 'permissionsRevoked',
+    origin: string,
+    methods: { [id: string]: string }
+  ): void {
+    const ids = Object.keys(methods);
+    if (ids.length > 0) {
+      this._emit(event, {
+        origin,
+        permissions: ids.map(id => ({ method: methods[id], capabilityId: id })),
+      });
+    }
+  }
+
+  createVirtualEngineFor (domain: IOriginMetadata): AnnotatedJsonRpcEngine {
+    const engine: AnnotatedJsonRpcEngine = new JsonRpcEngine();
+    engine.push(this.providerMiddlewareFunction.bind(this, domain));
+
+    /**
+     * If an engine was provided, it is used as the final step
+     * for the middleware provider.
+     */
+    if (this.engine) {
+      engine.push(asMiddleware(this.engine));
+    }
+
+    engine.domain = domain.origin;
+    return engine;
+  }
+
+  /**
+   * Gets the unexpired permissions in effect for the given domain, i.e. its
+   * own permissions, and those granted to subject groups containing it or
+   * origin patterns matching it. Of several permissions for the same method,
+   * only the one of the grantee with the highest precedence is returned:
+   * the domain itself, then its groups by name, then its patterns, longest
+   * first.
+   * Expired permissions, and permissions delegated from expired permissions,
+   * are treated as absent until they are removed by removeExpiredPermissions.
+   *
+   * @param {string} domain - The domain whose permissions to retrieve.
+   */
+  getPermissionsForDomain (domain: string): IOcapLdCapability[] {
+    const grantees = getGranteesFor(
+      domain, Object.keys(this.getDomains()), this.getSubjectGroups()
+    );
+    const methods: { [methodName: string]: boolean } = {};
+
+    return grantees.reduce<IOcapLdCapability[]>((permissions, grantee) => {
+      this._getGranteePermissions(grantee).forEach((perm) => {
+        const methodName = this.getMethodForCapability(perm);
+        if (!methods[methodName]) {
+          methods[methodName] = true;
+          permissions.push(perm);
+        }
+      });
+      return permissions;
+    }, []);
+  }
+
+  /**
+   * Internal function used to get the unexpired permissions granted to
+   * exactly the given grantee.
+   */
+  private _getGranteePermissions (grantee: string): IOcapLdCapability[] {
+    const { domains = {} } = this.state;
+    if (domains[grantee]) {
+      const now = Date.now();
+      const { permissions } = domains[grantee];
+      return permissions.filter((perm: IOcapLdCapability) => {
+        return !this.getCapabilityChain(perm).some(c => isExpired(c.expires, now));
+      });
+    }
+    return [];
+  }
+
+  /**
+   * Gets the metadata of the subject behind the given domain, or undefined
+   * if the domain holds no permissions.
+   *
+   * @param {string} origin - The domain whose subject metadata to get.
+   */
+  getSubjectMetadata (origin: string): ISubjectMetadata | undefined {
+    const entry = this.getDomainSettings(origin);
+    return entry?.metadata;
+  }
+
+  /**
+   * Updates the details of the subject behind the given domain. Throws if
+   * the details are invalid, or the domain holds no permissions, as subject
+   * metadata is removed with the last permission of its domain.
+   *
+   * @param {string} origin - The domain whose subject metadata to update.
+   * @param {ISubjectDetails} details - The details to set.
+   */
+  updateSubjectMetadata (origin: string, details: ISubjectDetails): void {
+    this._validateSubjectDetails(details);
+    if (!this.getDomainSettings(origin)) {
+      throw internalError({
+        message: `No permissions exist for domain '${origin}'.`,
+        data: { domain: origin },
+      });
+    }
+    this._mergeSubjectMetadata(origin, details);
+  }
+
+  /**
+   * Internal function used to validate subject details given by the host.
+   */
+  private _validateSubjectDetails (details: ISubjectDetails): void {
+    const error = validateSchema(details, subjectDetailsSchema, 'details');
+    if (error) {
+      throw invalidReq({
+        message: `Invalid subject metadata: '${error.path}' ${error.message}.`,
+        data: details,
+      });
+    }
+  }
+
+  /**
+   * Internal function used to merge the given changes into the subject
+   * metadata of the given domain, if it holds any permissions.
+   * The domains are updated without setDomains, as no permission changes,
+   * so connections are not notified.
+   */
+  private _mergeSubjectMetadata (origin: string, changes: Partial<ISubjectMetadata>): void {
+    const domains = this.getDomains();
+    const entry = domains[origin];
+    if (entry) {
+      domains[origin] = {
+        ...entry,
+        metadata: { firstSeen: Date.now(), ...entry.metadata, ...changes },
+      };
+      this.update({ domains });
+    }
+  }
+
+  /**
+   * Internal function used to record a restricted method call of the given
+   * domain in its subject metadata, along with its current details.
+   * Unless its details changed, its `lastUsed` timestamp is only updated
+   * once per LAST_USED_INTERVAL, to keep state updates and saves off the
+   * path of every call.
+   */
+  private _recordSubjectUse (domain: IOriginMetadata): void {
+    const metadata = this.getSubjectMetadata(domain.origin);
+    const details = getSubjectDetails(domain);
+    const now = Date.now();
+    if (
+      metadata?.lastUsed !== undefined &&
+      now - metadata.lastUsed < LAST_USED_INTERVAL &&
+      includesSubjectDetails(metadata, details)
+    ) {
+      return;
+    }
+    this._mergeSubjectMetadata(domain.origin, { ...details, lastUsed: now });
+  }
+
+  /**
+   * Gets the subject groups, by name. Permissions granted to the grantee
+   * `group:<name>` apply to every origin of the group.
+   */
+  getSubjectGroups (): { [groupName: string]: string[] } {
+    return this.state.subjectGroups || {};
+  }
+
+  /**
+   * Sets the origins of the given subject group. Setting no origins removes
+   * the group, but not the permissions granted to it.
+   *
+   * @param {string} groupName - The name of the group, without the `group:` prefix.
+   * @param {string[]} origins - The origins of the group.
+   */
+  setSubjectGroup (groupName: string, origins: string[]): void {
+    if (!groupName || typeof groupName !== 'string' || groupName.startsWith(SUBJECT_GROUP_PREFIX)) {
+      throw new Error(`Invalid subject group name: '${groupName}'.`);
+    }
+    if (!Array.isArray(origins) || origins.some(origin => !origin || typeof origin !== 'string')) {
+      throw new Error(`Invalid origins for subject group '${groupName}'.`);
+    }
+
+    const subjectGroups = { ...this.getSubjectGroups() };
+    if (origins.length > 0) {
+      subjectGroups[groupName] = [...origins];
+    } else {
+      delete subjectGroups[groupName];
+    }
+    this.update({ subjectGroups });
+    this._notifyPermissionsChanges();
+  }
+
+  /**
+   * Get the permission granting the requested domain's method permission.
+   * Follows the delegation chain of each of the domain's permissions to
+   * determine the method it grants.
+   *
+   * @param {string} domain - The domain whose permission to retrieve.
+   * @param {string} method - The method
+   */
+  getPermission (domain: string, method: string): IOcapLdCapability | undefined {
+    return this.getPermissionsForDomain(domain).find((perm) => {
+      return this.getMethodForCapability(perm) === method;
+    });
+  }
+
+  /**
+   * Gets the capability with the given id, regardless of the domain holding it.
+   *
+   * @param {string} id - The id of the capability.
+   */
+  getCapability (id: string): IOcapLdCapability | undefined {
+    return this._getCapabilityIndex().get(id);
+  }
+
+  /**
+   * Internal function used to get the capabilities of all domains by id.
+   * The index is rebuilt when the domains are replaced or set, see setDomains.
+   */
+  private _getCapabilityIndex (): Map<string, IOcapLdCapability> {
+    const domains = this.getDomains();
+    if (!this.capabilityIndex || this.capabilityIndex.domains !== domains) {
+      const capabilities = new Map<string, IOcapLdCapability>();
+      Object.keys(domains).forEach((domainName) => {
+        domains[domainName].permissions.forEach((perm: IOcapLdCapability) => {
+          if (!capabilities.has(perm.id)) {
+            capabilities.set(perm.id, perm);
+          }
+        });
+      });
+      this.capabilityIndex = { domains, capabilities };
+    }
+    return this.capabilityIndex.capabilities;
+  }
+
+  /**
+   * Gets the delegation chain of the given capability, starting with the
+   * root capability granted by the user, and ending with the given capability.
+   *
+   * @param {IOcapLdCapability} capability - The capability whose chain to get.
+   */
+  getCapabilityChain (capability: IOcapLdCapability): IOcapLdCapability[] {
+    const chain = [capability];
+    let parent = this.getCapability(capability.parentCapability);
+    while (parent && !chain.includes(parent)) {
+      chain.unshift(parent);
+      parent = this.getCapability(parent.parentCapability);
+    }
+    return chain;
+  }
+
+  /**
+   * Gets the name of the method granted by the given capability, i.e. the
+   * parentCapability of the root of its delegation chain.
+   *
+   * @param {IOcapLdCapability} capability - The capability.
+   */
+  getMethodForCapability (capability: IOcapLdCapability): string {
+    return this.getCapabilityChain(capability)[0].parentCapability;
+  }
+
+  /**
+   * Gets current permissions request objects.
+   * Useful for displaying information for user consent.
+   */
+  getPermissionsRequests (): IPermissionsRequest[] {
+    const reqs = this.state.permissionsRequests;
+    return reqs || [];
+  }
+
+  /**
+   * Used for removing a permissions request from the permissions request array.
+   *
+   * @param request The request that no longer requires user attention.
+   */
+  removePermissionsRequest (requestId: string): void {
+    const reqs = this.getPermissionsRequests().filter((oldReq) => {
+      return oldReq.metadata.id !== requestId;
+    });
+    this.setPermissionsRequests(reqs);
+  }
+
+  setPermissionsRequests (
+    permissionsRequests: IPermissionsRequest[]
+  ): void {
+    this.update({ permissionsRequests });
+  }
+
+  /**
+   * Approves a pending permissions request, as if its user approval prompt
+   * resolved with the given permissions.
+   *
+   * @param {string} requestId - The id of the pending request.
+   * @param {IRequestedPermissions} permissions - The approved permissions.
+   */
+  approvePermissionsRequest (
+    requestId: string,
+    permissions: IRequestedPermissions
+  ): void {
+    this._getPendingApproval(requestId).resolve(permissions);
+  }
+
+  /**
+   * Rejects a pending permissions request with a user rejected request error.
+   *
+   * @param {string} requestId - The id of the pending request.
+   * @param {string} [reason] - The error message.
+   */
+  rejectPermissionsRequest (requestId: string, reason?: string): void {
+    this._getPendingApproval(requestId).reject(
+      userRejectedRequest(undefined, reason)
+    );
+  }
+
+  /**
+   * Rejects all pending permissions requests of the given origin, e.g. when
+   * its connection is closed.
+   *
+   * @param {string} origin - The origin whose requests to reject.
+   */
+  rejectPermissionsRequestsFor (origin: string): void {
+    this._rejectPermissionsRequests(origin, () => true);
+  }
+
+  /**
+   * Internal function used to reject the responders of the pending
+   * permissions requests of the given origin that match the given filter.
+   * Requests left without responders are removed, or rejected if prompted.
+   */
+  private _rejectPermissionsRequests (
+    origin: string,
+    filter: (responder: QueuedPermissionsRequest['responders'][0]) => boolean
+  ): void {
+    const queue = this.permissionsRequestQueues[origin];
+    if (!queue) {
+      return;
+    }
+
+    // reject the queued requests before the prompted one
+    const [prompted, ...waiting] = queue;
+    [...waiting, prompted].forEach((queued) => {
+      queued.responders = queued.responders.filter((responder) => {
+        if (!filter(responder)) {
+          return true;
+        }
+        responder.res.error = userRejectedRequest(queued.req);
+        responder.end(responder.res.error);
+        return false;
+      });
+
+      if (queued.responders.length > 0) {
+        return;
+      }
+      if (queued === prompted) {
+        this.rejectPermissionsRequest(queued.request.metadata.id as string);
+      } else {
+        queue.splice(queue.indexOf(queued), 1);
+      }
+    });
+  }
+
+  /**
+   * Internal function used to get the callbacks settling a pending
+   * permissions request.
+   */
+  private _getPendingApproval (requestId: string): PendingApproval {
+    const pendingApproval = this.pendingApprovals[requestId];
+    if (!pendingApproval) {
+      throw internalError({
+        message: `No pending permissions request with id '${requestId}'.`,
+        data: requestId,
+      });
+    }
+    return pendingApproval;
+  }
+
+  /**
+   * Used for granting a new set of permissions,
+   * after the user has approved it.
+   *
+   * @param {string} domain - The domain receiving new permissions.
+   * @param {IRequestedPermissions} approvedPermissions - An object of objects describing the granted permissions.
+   * @param {JsonRpcResponse} res - The response.
+   * @param {JsonRpcEngineEndCallback} end - The end function.
+   */
+  grantNewPermissions (
+    domain: string,
+    approved: IRequestedPermissions,
+    res: JsonRpcResponse<any>,
+    end: JsonRpcEngineEndCallback
+  ): void {
+
+    if (!domain || typeof domain !== 'string') {
+      res.error = invalidReq(`Invalid domain: '${domain}'.`);
+      return end(res.error);
+    }
+
+    // Enforce actual approving known methods:
+    for (const methodName in approved) {
+      if (!this.getMethodKeyFor(methodName)) {
+        res.error = methodNotFound({ methodName });
+        return end(res.error);
+      }
+    }
+
+    // Enforce granting the required dependencies of approved methods:
+    for (const methodName in approved) {
+      const missing = this.getMethodDependencies(methodName).required.find(
+        dependency => !approved[dependency] && !this.getPermission(domain, dependency)
+      );
+      if (missing) {
+        res.error = invalidReq({
+          message: `Method '${methodName}' requires permission for method '${missing}'.`,
+          data: approved,
+        });
+        return end(res.error);
+      }
+    }
+
+    const permissions: { [methodName: string]: IOcapLdCapability } = {};
+
+    for (const method in approved) {
+
+      const { expires } = approved[method];
+      if (
+        expires !== undefined &&
+        (typeof expires !== 'number' || isExpired(expires))
+      ) {
+        res.error = invalidReq(`Invalid expiration time for method '${method}'.`);
+        return end(res.error);
+      }
+
+      const newPerm = new Capability({
+        parentCapability: method,
+        invoker: domain,
+        caveats: approved[method].caveats,
+        expires,
+      });
+
+      if (newPerm.caveats && !this.validateCaveats(newPerm.caveats, method)) {
+
+        res.error = internalError({
+          message: 'Invalid caveats.',
+          data: newPerm,
+        });
+
+        return end(res.error);
+      }
+
+      try {
+        this.validateCaveatValues(newPerm.caveats || []);
+        this._signPermission(newPerm);
+      } catch (err) {
+        res.error = err;
+        return end(res.error);
+      }
+
+      permissions[method] = newPerm;
+    }
+
+    this.addPermissionsFor(domain, permissions);
+    this._logPermissions('grant', domain, Object.keys(permissions).map(
+      method => permissions[method]
+    ));
+    res.result = this.getPermissionsForDomain(domain);
+    end();
+  }
+
+  getDomains (): RpcCapDomainRegistry {
     const { domains } = this.state;
     return domains || {};
   }
 
+  /**
+   * Sets the domains, and removes the caveat counters of capabilities that
+   * no longer exist.
+   *
+   * @param {RpcCapDomainRegistry} domains - The new domains.
+   */
   setDomains (domains: RpcCapDomainRegistry): void {
-    this.update({ domains });
+    // domains are often changed in place, so the index is always rebuilt
+    this.capabilityIndex = undefined;
+    const { caveatCounters } = this.state;
+    if (!caveatCounters || Object.keys(caveatCounters).length === 0) {
+      this.update({ domains });
+      this._notifyPermissionsChanges();
+      return;
+    }
+
+    const ids: { [id: string]: boolean } = {};
+    Object.keys(domains).forEach((domainName) => {
+      domains[domainName].permissions.forEach((perm: IOcapLdCapability) => {
+        ids[perm.id] = true;
+      });
+    });
+
+    this.update({
+      domains,
+      caveatCounters: Object.keys(caveatCounters).reduce<typeof caveatCounters>(
+        (acc, id) => {
+          if (ids[id]) {
+            acc[id] = caveatCounters[id];
+          }
+          return acc;
+        },
+        {}
+      ),
+    });
+    this._notifyPermissionsChanges();
   }
 
   /**
@@ -482,6 +1717,7 @@ export class CapabilitiesController extends BaseController<any, any> implements
    * Adds permissions to the given domain. Overwrites existing identical
    * permissions (same domain, and method). Other existing permissions
    * remain unaffected.
+   * Permissions delegated from overwritten permissions are revoked.
    *
    * @param {string} domainName - The grantee domain.
    * @param {Array} newPermissions - The unique, new permissions for the grantee domain.
@@ -492,17 +1728,35 @@ export class CapabilitiesController extends BaseController<any, any> implements
   ): void {
     const domain: RpcCapDomainEntry = this.getOrCreateDomainSettings(domainName);
     const newKeys = Object.keys(newPermissions);
+    const newIds = newKeys.map(methodName => newPermissions[methodName].id);
+    const oldIds = domain.permissions.map((perm: IOcapLdCapability) => perm.id);
+    const overwritten: { [id: string]: string } = {};
+    const granted: { [id: string]: string } = {};
 
     // remove old permissions so that they will be overwritten
     domain.permissions = domain.permissions.filter((oldPerm: IOcapLdCapability) => {
-      return !newKeys.includes(oldPerm.parentCapability);
+      const methodName = this.getMethodForCapability(oldPerm);
+      if (newKeys.includes(methodName)) {
+        if (!newIds.includes(oldPerm.id)) {
+          overwritten[oldPerm.id] = methodName;
+        }
+        return false;
+      }
+      return true;
     });
 
     for (const methodName in newPermissions) {
       domain.permissions.push(newPermissions[methodName]);
+      if (!oldIds.includes(newPermissions[methodName].id)) {
+        granted[newPermissions[methodName].id] = methodName;
+      }
     }
+    domain.metadata = { firstSeen: Date.now(), ...domain.metadata };
 
     this.setDomain(domainName, domain);
+    this._emitPermissions('permissionsRevoked', domainName, overwritten);
+    this._emitPermissions('permissionsGranted', domainName, granted);
+    this._removeDelegatedPermissions(overwritten);
   }
 
   /**
@@ -511,15 +1765,16 @@ export class CapabilitiesController extends BaseController<any, any> implements
    * Returns true if valid, false otherwise.
    *
    * @param {IOcapLdCaveat[]} - The caveats to validate.
+   * @param {string} [methodName] - The method of the permission, if any.
    */
-  validateCaveats (caveats: IOcapLdCaveat[]): boolean {
+  validateCaveats (caveats: IOcapLdCaveat[], methodName?: string): boolean {
 
     const seenNames: { [key: string]: boolean } = {};
 
     for (const c of caveats) {
 
       if (
-        !this.validateCaveat(c) ||
+        !this.validateCaveat(c, methodName) ||
         c.name && seenNames[c.name] // names must be unique
       ) {
         return false;
@@ -535,23 +1790,63 @@ export class CapabilitiesController extends BaseController<any, any> implements
 
   /**
    * Validates the given caveat. Returns true if valid, false otherwise.
+   * The caveat type must be registered, and if a method is given, the
+   * caveat type must be attachable to it.
    *
    * @param {IOcapLdCaveat} - The caveat to validate.
+   * @param {string} [methodName] - The method of the permission, if any.
    */
-  validateCaveat (caveat: IOcapLdCaveat): boolean {
+  validateCaveat (caveat: IOcapLdCaveat, methodName?: string): boolean {
 
     if (
       !caveat || typeof caveat !== 'object' || Array.isArray(caveat) ||
       !caveat.type || typeof caveat.type !== 'string' ||
+      !this.caveatTypes[caveat.type] ||
       caveat.name === '' || // name may be omitted, but not empty
       caveat.name && typeof caveat.name !== 'string'
 
     ) {
       return false;
     }
+
+    const { methods } = this.caveatTypes[caveat.type];
+    if (
+      methodName && methods &&
+      !methods.includes(methodName) &&
+      !methods.includes(this.getMethodKeyFor(methodName))
+    ) {
+      return false;
+    }
     return true;
   }
 
+  /**
+   * Validates the values of the given caveats against the value schemas of
+   * their types. Throws an invalid request error naming the offending caveat
+   * and field if a value is invalid.
+   * Assumes that the caveats are otherwise valid, see validateCaveats.
+   *
+   * @param {IOcapLdCaveat[]} - The caveats whose values to validate.
+   */
+  validateCaveatValues (caveats: IOcapLdCaveat[]): void {
+
+    for (const c of caveats) {
+
+      const { valueSchema, validateValue } = this.caveatTypes[c.type];
+      let error = valueSchema && validateSchema(c.value, valueSchema);
+      if (!error && validateValue) {
+        error = validateValue(c.value);
+      }
+
+      if (error) {
+        throw invalidReq({
+          message: `Invalid caveat '${c.name || c.type}': '${error.path}' ${error.message}.`,
+          data: { caveat: c, path: error.path },
+        });
+      }
+    }
+  }
+
   /**
    * Gets all caveats for the permission corresponding to the given domain and
    * method, or undefined if the permission or its caveats does not exist.
@@ -605,7 +1900,7 @@ export class CapabilitiesController extends BaseController<any, any> implements
   ): void {
 
     // assert caveat is valid
-    if (!this.validateCaveat(caveat)) {
+    if (!this.validateCaveat(caveat, methodName)) {
       throw internalError({
         message: 'Invalid caveat param. Must be a valid caveat object.',
         data: caveat,
@@ -625,6 +1920,13 @@ export class CapabilitiesController extends BaseController<any, any> implements
     this._validateAndUpdateCaveats(
       domainName, methodName, newCaveats, perm
     );
+    this._logPermissions('caveatAdded', domainName, [perm]);
+    this._emit('caveatAdded', {
+      origin: domainName,
+      method: methodName,
+      capabilityId: perm.id,
+      caveat,
+    });
   }
 
   /**
@@ -684,97 +1986,516 @@ export class CapabilitiesController extends BaseController<any, any> implements
       });
     }
 
-    caveat.value = caveatValue;
-    newCaveats.push(caveat);
-
-    this._validateAndUpdateCaveats(
-      domainName, methodName, newCaveats, perm
-    );
+    const updatedCaveat = { ...caveat, value: caveatValue };
+    newCaveats.push(updatedCaveat);
+
+    this._validateAndUpdateCaveats(
+      domainName, methodName, newCaveats, perm
+    );
+    this._logPermissions('caveatUpdated', domainName, [perm]);
+    this._emit('caveatUpdated', {
+      origin: domainName,
+      method: methodName,
+      capabilityId: perm.id,
+      caveat: updatedCaveat,
+    });
+  }
+
+  /**
+   * Internal function used in addCaveatFor and updateCaveatFor.
+   */
+  private _getPermissionForCaveat (
+    domainName: string,
+    methodName: string
+  ): IOcapLdCapability {
+
+    // assert domain already has permission, not through a group or pattern
+    const perm = this._getGranteePermissions(domainName).find((p) => {
+      return this.getMethodForCapability(p) === methodName;
+    });
+    if (!perm) {
+      throw internalError({
+        message: 'No such permission exists for the given domain.',
+        data: { domain: domainName, method: methodName },
+      });
+    }
+
+    return perm;
+  }
+
+  /**
+   * Internal function used in addCaveatFor and updateCaveatFor.
+   */
+  private _validateAndUpdateCaveats (
+    domainName: string,
+    methodName: string,
+    newCaveats: IOcapLdCaveat[],
+    perm: IOcapLdCapability
+  ): void {
+
+    // assert that new caveats are valid
+    if (!this.validateCaveats(newCaveats, methodName)) {
+      throw internalError({
+        message: 'The new caveats are jointly invalid.',
+        data: newCaveats,
+      });
+    }
+    this.validateCaveatValues(newCaveats);
+
+    // construct new permission with new caveat
+    this._assertCanIssue();
+    const newPermissions: { [methodName: string]: IOcapLdCapability } = {};
+    perm.caveats = newCaveats;
+    this._signPermission(perm);
+    newPermissions[methodName] = perm;
+
+    // overwrite the existing permission, completing the update
+    this.addPermissionsFor(domainName, newPermissions);
+  }
+
+  /**
+   * Removes the specified permissions from the given domain, along with the
+   * domain's permissions that require any of them.
+   *
+   * @param {string} domainName - The domain name whose permissions to remove.
+   * @param {Array} permissionsToRemove - Objects identifying the permissions to remove.
+   */
+  removePermissionsFor (
+    domainName: string,
+    permissionsToRemove: IOcapLdCapability[]
+  ): void {
+    // returns { permissions: [] } for new domains
+    const domain = this.getDomainSettings(domainName);
+
+    if (!domain) {
+      return;
+    }
+
+    const removed: { [id: string]: string } = {};
+    const removedPerms = domain.permissions.filter(
+      (perm: IOcapLdCapability) => {
+        const methodName = this.getMethodForCapability(perm);
+        for (const r of permissionsToRemove) {
+          if (
+            r.parentCapability === perm.parentCapability ||
+            r.parentCapability === methodName
+          ) {
+            removed[perm.id] = methodName;
+            return true;
+          }
+        }
+        return false;
+      }
+    );
+
+    this._getDependentPermissions(
+      domain.permissions.filter((perm: IOcapLdCapability) => !removedPerms.includes(perm)),
+      Object.keys(removed).map(id => removed[id])
+    ).forEach((perm) => {
+      removed[perm.id] = this.getMethodForCapability(perm);
+      removedPerms.push(perm);
+    });
+
+    this._logPermissions('revoke', domainName, removedPerms);
+    domain.permissions = domain.permissions.filter(
+      (perm: IOcapLdCapability) => !removedPerms.includes(perm)
+    );
+
+    this.setDomain(domainName, domain);
+    this._emitPermissions('permissionsRevoked', domainName, removed);
+    this._removeDelegatedPermissions(removed);
+  }
+
+  /**
+   * Internal function used to find the given permissions whose methods
+   * require, directly or transitively, one of the given removed methods.
+   */
+  private _getDependentPermissions (
+    permissions: IOcapLdCapability[],
+    removedMethods: string[]
+  ): IOcapLdCapability[] {
+    const removed = [...removedMethods];
+    const dependents: IOcapLdCapability[] = [];
+    let foundDependent = true;
+
+    while (foundDependent) {
+      foundDependent = false;
+      for (const perm of permissions) {
+        const methodName = this.getMethodForCapability(perm);
+        if (
+          !dependents.includes(perm) &&
+          this.getMethodDependencies(methodName).required.some(dep => removed.includes(dep))
+        ) {
+          dependents.push(perm);
+          removed.push(methodName);
+          foundDependent = true;
+        }
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * Internal function used to revoke, from all domains, every permission
+   * delegated directly or transitively from the given removed permissions,
+   * along with the affected domains' permissions that require them.
+   *
+   * @param {Object} parents - The methods of the removed permissions, by id.
+   */
+  private _removeDelegatedPermissions (parents: { [id: string]: string }): void {
+    if (Object.keys(parents).length === 0) {
+      return;
+    }
+
+    const domains = this.getDomains();
+    const revoked: { [id: string]: string } = { ...parents };
+    let foundDescendant = true;
+
+    // collect descendants until no more are found
+    while (foundDescendant) {
+      foundDescendant = false;
+      for (const domainName of Object.keys(domains)) {
+        for (const perm of domains[domainName].permissions) {
+          if (revoked[perm.parentCapability] && !revoked[perm.id]) {
+            revoked[perm.id] = revoked[perm.parentCapability];
+            foundDescendant = true;
+          }
+        }
+      }
+    }
+
+    const dependents: { [id: string]: string } = {};
+    Object.keys(domains).forEach((domainName) => {
+      const domain = domains[domainName];
+      const domainRevoked: { [id: string]: string } = {};
+      let permissions = domain.permissions.filter(
+        (perm: IOcapLdCapability) => {
+          if (revoked[perm.id] && !parents[perm.id]) {
+            domainRevoked[perm.id] = revoked[perm.id];
+            this._logActivity({
+              type: 'revoke',
+              origin: domainName,
+              method: revoked[perm.id],
+              capabilityId: perm.id,
+              outcome: 'success',
+            });
+          }
+          return !revoked[perm.id];
+        }
+      );
+      if (permissions.length === domain.permissions.length) {
+        return;
+      }
+
+      // the domain's permissions requiring a revoked method go as well
+      const dependentPerms = this._getDependentPermissions(
+        permissions, Object.keys(domainRevoked).map(id => domainRevoked[id])
+      );
+      dependentPerms.forEach((perm) => {
+        domainRevoked[perm.id] = this.getMethodForCapability(perm);
+        dependents[perm.id] = domainRevoked[perm.id];
+      });
+      permissions = permissions.filter(
+        (perm: IOcapLdCapability) => !dependentPerms.includes(perm)
+      );
+
+      this._logPermissions('revoke', domainName, dependentPerms);
+      this.setDomain(domainName, { ...domain, permissions });
+      this._emitPermissions('permissionsRevoked', domainName, domainRevoked);
+    });
+
+    // and so do the permissions delegated from those
+    this._removeDelegatedPermissions(dependents);
+  }
+
+  /**
+   * Revokes permissions held by the given domain, identified by method name
+   * or capability id. Permissions delegated from them are revoked as well.
+   * Returns the domain's remaining permissions.
+   *
+   * @param {string} domainName - The domain whose permissions to revoke.
+   * @param {Array} identifiers - The method names or capability ids to revoke.
+   */
+  revokePermissions (
+    domainName: string,
+    identifiers: string[]
+  ): IOcapLdCapability[] {
+    const { permissions } = this.getDomainSettings(domainName) || { permissions: [] };
+    const permissionsToRemove: IOcapLdCapability[] = [];
+
+    identifiers.forEach((identifier) => {
+      const perm = permissions.find((p: IOcapLdCapability) => {
+        return p.id === identifier || this.getMethodForCapability(p) === identifier;
+      });
+
+      if (perm) {
+        permissionsToRemove.push(perm);
+      } else if (!this.getMethodKeyFor(identifier)) {
+        throw methodNotFound({ methodName: identifier, data: identifiers });
+      }
+    });
+
+    this.removePermissionsFor(domainName, permissionsToRemove);
+    return this.getPermissionsForDomain(domainName);
+  }
+
+  /**
+   * Delegates permissions held by the delegator domain to the delegatee
+   * domain. Each new permission points at its parent via parentCapability,
+   * and is bound by the caveats of every permission in its delegation chain,
+   * so the given caveats can only attenuate it further.
+   * Revoking a permission also revokes all permissions delegated from it.
+   *
+   * Throws if the delegator does not hold a requested permission, the
+   * delegatee is invalid, an origin pattern or a subject group, or already
+   * holds a requested permission, or the given caveats are invalid.
+   *
+   * @param {string} delegator - The domain delegating its permissions.
+   * @param {string} delegatee - The domain receiving the permissions.
+   * @param {IRequestedPermissions} permissions - The permissions to delegate,
+   * optionally with additional caveats and an expiration date.
+   * @returns {IOcapLdCapability[]} - The new, delegated permissions.
+   */
+  delegatePermissions (
+    delegator: string,
+    delegatee: string,
+    permissions: IRequestedPermissions
+  ): IOcapLdCapability[] {
+
+    if (!delegatee || typeof delegatee !== 'string' || delegatee === delegator) {
+      throw invalidReq(`Invalid delegatee: '${delegatee}'.`);
+    }
+
+    // only the host may grant permissions to many origins at once
+    if (isOriginPattern(delegatee) || delegatee.startsWith(SUBJECT_GROUP_PREFIX)) {
+      throw invalidReq(`Cannot delegate to an origin pattern or subject group: '${delegatee}'.`);
+    }
+
+    const delegated: { [methodName: string]: IOcapLdCapability } = {};
+
+    for (const methodName in permissions) {
+
+      const parent = this.getPermission(delegator, methodName);
+      if (!parent) {
+        throw unauthorized({
+          message: `Cannot delegate a permission that is not held: '${methodName}'.`,
+          data: { domain: delegator, method: methodName },
+        });
+      }
+
+      // delegating to a domain in the chain would revoke the chain itself
+      if (this.getCapabilityChain(parent).some(c => c.invoker === delegatee)) {
+        throw invalidReq(`Cannot delegate '${methodName}' to its own delegator: '${delegatee}'.`);
+      }
+
+      // delegating would replace the delegatee's own permission
+      const { permissions: held } = this.getOrCreateDomainSettings(delegatee);
+      if (held.some((perm: IOcapLdCapability) => this.getMethodForCapability(perm) === methodName)) {
+        throw invalidReq(`Cannot delegate '${methodName}' to a domain already holding it: '${delegatee}'.`);
+      }
+
+      const { caveats, expires } = permissions[methodName];
+
+      if (caveats && !this.validateCaveats(caveats, methodName)) {
+        throw invalidReq({
+          message: 'Invalid caveats.',
+          data: caveats,
+        });
+      }
+      this.validateCaveatValues(caveats || []);
+
+      if (
+        expires !== undefined &&
+        (typeof expires !== 'number' || isExpired(expires))
+      ) {
+        throw invalidReq(`Invalid expiration time for method '${methodName}'.`);
+      }
+
+      delegated[methodName] = new Capability({
+        parentCapability: parent.id,
+        invoker: delegatee,
+        caveats,
+        expires,
+      });
+      this._signPermission(delegated[methodName]);
+    }
+
+    const delegatedPermissions = Object.keys(delegated).map(
+      methodName => delegated[methodName]
+    );
+
+    this.addPermissionsFor(delegatee, delegated);
+    this._logPermissions('grant', delegatee, delegatedPermissions);
+    return delegatedPermissions;
+  }
+
+  /**
+   * Internal function used to sign permissions issued by the controller,
+   * if it is configured for signing. See _assertCanIssue.
+   */
+  private _signPermission (perm: IOcapLdCapability): void {
+    this._assertCanIssue();
+    if (this.signer) {
+      perm.proof = signCapability(perm, this.signer);
+    }
+  }
+
+  /**
+   * Internal function used to refuse issuing permissions if the controller
+   * can only verify them, i.e. has a public key but no private key, as
+   * they would be removed as unsigned when next verified.
+   */
+  private _assertCanIssue (): void {
+    if (this.signer && !this.signer.privateKey) {
+      throw internalError({
+        message: 'Cannot issue permissions without a signing private key.',
+      });
+    }
+  }
+
+  /**
+   * Verifies the proof of the given permission. Always returns true if the
+   * controller is not configured for signing.
+   *
+   * @param {IOcapLdCapability} permission - The permission to verify.
+   */
+  verifyPermission (permission: IOcapLdCapability): boolean {
+    return !this.signer || verifyCapability(permission, this.signer);
   }
 
   /**
-   * Internal function used in addCaveatFor and updateCaveatFor.
+   * Internal function used to check that the given permission is held by
+   * the domain it is stored under, and passes verification, so that signed
+   * permissions cannot be moved or copied to other domains.
    */
-  private _getPermissionForCaveat (
-    domainName: string,
-    methodName: string
-  ): IOcapLdCapability {
+  private _isVerifiedPermissionOf (domainName: string, perm: IOcapLdCapability): boolean {
+    return perm.invoker === domainName && this.verifyPermission(perm);
+  }
 
-    // assert domain already has permission
-    const perm = this.getPermission(domainName, methodName);
-    if (!perm) {
-      throw internalError({
-        message: 'No such permission exists for the given domain.',
-        data: { domain: domainName, method: methodName },
-      });
-    }
+  /**
+   * Imports the given domains, replacing any existing entries for the same
+   * domains. Permissions that fail verification, or whose invoker is not
+   * their domain, are rejected and not imported.
+   *
+   * @param {RpcCapDomainRegistry} domains - The domains to import.
+   * @returns {RpcCapDomainRegistry} - The rejected permissions, by domain.
+   */
+  importDomains (domains: RpcCapDomainRegistry): RpcCapDomainRegistry {
+    const rejected: RpcCapDomainRegistry = {};
+
+    Object.keys(domains).forEach((domainName) => {
+      const domain = domains[domainName];
+      const permissions = domain.permissions.filter(
+        (perm: IOcapLdCapability) => this._isVerifiedPermissionOf(domainName, perm)
+      );
+      if (permissions.length !== domain.permissions.length) {
+        rejected[domainName] = {
+          permissions: domain.permissions.filter(
+            (perm: IOcapLdCapability) => !permissions.includes(perm)
+          ),
+        };
+      }
+      this.setDomain(domainName, { ...domain, permissions });
+    });
 
-    return perm;
+    this._removeDelegatedPermissions(this._omitHeldIds(this._getRejectedMethods(rejected)));
+    return rejected;
   }
 
   /**
-   * Internal function used in addCaveatFor and updateCaveatFor.
+   * Internal function used to remove permissions that fail verification
+   * from the loaded state.
    */
-  private _validateAndUpdateCaveats (
-    domainName: string,
-    methodName: string,
-    newCaveats: IOcapLdCaveat[],
-    perm: IOcapLdCapability
-  ): void {
+  private _removeUnverifiedPermissions (): void {
+    const domains = this.getDomains();
+    const rejected: RpcCapDomainRegistry = {};
+
+    Object.keys(domains).forEach((domainName) => {
+      const permissions = domains[domainName].permissions.filter(
+        (perm: IOcapLdCapability) => !this._isVerifiedPermissionOf(domainName, perm)
+      );
+      if (permissions.length > 0) {
+        rejected[domainName] = { permissions };
+      }
+    });
 
-    // assert that new caveats are valid
-    if (!this.validateCaveats(newCaveats)) {
-      throw internalError({
-        message: 'The new caveats are jointly invalid.',
-        data: newCaveats,
+    const rejectedMethods = this._getRejectedMethods(rejected);
+    Object.keys(rejected).forEach((domainName) => {
+      const domain = domains[domainName];
+      this.setDomain(domainName, {
+        ...domain,
+        permissions: domain.permissions.filter(
+          (perm: IOcapLdCapability) => !rejected[domainName].permissions.includes(perm)
+        ),
       });
-    }
+    });
+    this._removeDelegatedPermissions(this._omitHeldIds(rejectedMethods));
+  }
 
-    // construct new permission with new caveat
-    const newPermissions: { [methodName: string]: IOcapLdCapability } = {};
-    perm.caveats = newCaveats;
-    newPermissions[methodName] = perm;
+  /**
+   * Internal function used to omit the ids of rejected permissions that are
+   * still held, e.g. copies of valid permissions stored under other domains,
+   * so that the permissions delegated from the valid ones are kept.
+   */
+  private _omitHeldIds (methods: { [id: string]: string }): { [id: string]: string } {
+    return Object.keys(methods).reduce<{ [id: string]: string }>((acc, id) => {
+      if (!this.getCapability(id)) {
+        acc[id] = methods[id];
+      }
+      return acc;
+    }, {});
+  }
 
-    // overwrite the existing permission, completing the update
-    this.addPermissionsFor(domainName, newPermissions);
+  /**
+   * Internal function used to collect the methods of rejected permissions,
+   * by id.
+   */
+  private _getRejectedMethods (rejected: RpcCapDomainRegistry): { [id: string]: string } {
+    const methods: { [id: string]: string } = {};
+    Object.keys(rejected).forEach((domainName) => {
+      rejected[domainName].permissions.forEach((perm: IOcapLdCapability) => {
+        methods[perm.id] = this.getMethodForCapability(perm);
+      });
+    });
+    return methods;
   }
 
   /**
-   * Removes the specified permissions from the given domain.
+   * Removes all expired permissions from all domains.
    *
-   * @param {string} domainName - The domain name whose permissions to remove.
-   * @param {Array} permissionsToRemove - Objects identifying the permissions to remove.
+   * @returns {Object} - The removed permissions, keyed by domain.
    */
-  removePermissionsFor (
-    domainName: string,
-    permissionsToRemove: IOcapLdCapability[]
-  ): void {
-    // returns { permissions: [] } for new domains
-    const domain = this.getDomainSettings(domainName);
-
-    if (!domain) {
-      return;
-    }
+  removeExpiredPermissions (): { [domain: string]: IOcapLdCapability[] } {
+    const now = Date.now();
+    const domains = this.getDomains();
+    const removed: { [domain: string]: IOcapLdCapability[] } = {};
 
-    domain.permissions = domain.permissions.filter(
-      (perm: IOcapLdCapability) => {
-        for (const r of permissionsToRemove) {
-          if (r.parentCapability === perm.parentCapability) {
-            return false;
-          }
+    // permissions delegated from expired permissions are expired as well
+    Object.keys(domains).forEach((domainName) => {
+      const expired = domains[domainName].permissions.filter(
+        (perm: IOcapLdCapability) => {
+          return this.getCapabilityChain(perm).some(c => isExpired(c.expires, now));
         }
-        return true;
+      );
+      if (expired.length > 0) {
+        removed[domainName] = expired;
       }
-    );
+    });
 
-    this.setDomain(domainName, domain);
+    Object.keys(removed).forEach((domainName) => {
+      this.removePermissionsFor(domainName, removed[domainName]);
+    });
+
+    return removed;
   }
 
   /**
    * Clear all domains (and thereby remove all permissions).
    */
   clearDomains (): void {
+    const origins = Object.keys(this.getDomains());
     this.setDomains({});
+    origins.forEach(origin => this._emit('domainCleared', { origin }));
   }
 
   /**
@@ -791,7 +2512,37 @@ export class CapabilitiesController extends BaseController<any, any> implements
       throw invalidReq({ data: req });
     }
 
-    const perms: IRequestedPermissions = req.params[0];
+    this.validateRequestedPermissions(req.params[0], req);
+  }
+
+  /**
+   * Check if a request to delegatePermissionsMiddleware is valid.
+   */
+  validateDelegationRequest (req: JsonRpcRequest<any>): void {
+
+    if (
+      !req ||
+      !Array.isArray(req.params) ||
+      typeof req.params[0] !== 'string' ||
+      typeof req.params[1] !== 'object' ||
+      Array.isArray(req.params[1])
+    ) {
+      throw invalidReq({ data: req });
+    }
+
+    this.validateRequestedPermissions(req.params[1], req);
+  }
+
+  /**
+   * Check if the requested permissions object of a request is valid.
+   *
+   * @param {IRequestedPermissions} perms - The requested permissions.
+   * @param {JsonRpcRequest} req - The request, used as error data.
+   */
+  validateRequestedPermissions (
+    perms: IRequestedPermissions,
+    req: JsonRpcRequest<any>
+  ): void {
 
     for (const methodName in perms) {
 
@@ -802,6 +2553,13 @@ export class CapabilitiesController extends BaseController<any, any> implements
         throw invalidReq({ data: req });
       }
 
+      if (
+        perms[methodName].expires !== undefined &&
+        typeof perms[methodName].expires !== 'number'
+      ) {
+        throw invalidReq({ data: req });
+      }
+
       if (!this.getMethodKeyFor(methodName)) {
         throw methodNotFound({ methodName, data: req });
       }
@@ -824,6 +2582,196 @@ export class CapabilitiesController extends BaseController<any, any> implements
     end();
   }
 
+  /**
+   * Describes every restricted method key that the given domain may request
+   * permission for, in the order the keys were configured.
+   *
+   * @param {string} domain - The domain asking, whose permissions are reported as held.
+   */
+  getAvailablePermissions (domain: string): IAvailablePermission[] {
+    const heldKeys = this.getPermissionsForDomain(domain).map(
+      perm => this.getMethodKeyFor(this.getMethodForCapability(perm))
+    );
+
+    return Object.keys(this.restrictedMethods).map((key) => {
+      return {
+        key,
+        description: this.restrictedMethods[key].description,
+        type: getMethodKeyType(key, this.methodIndex.separator),
+        caveatTypes: Object.keys(this.caveatTypes).filter((type) => {
+          const { methods } = this.caveatTypes[type];
+          return !methods || methods.includes(key);
+        }),
+        dependencies: this.getMethodDependencies(key),
+        ...this.getMethodSchemas(key),
+        held: heldKeys.includes(key),
+      };
+    });
+  }
+
+  /**
+   * The capabilities middleware function used for listing the restricted
+   * methods available to the requesting domain.
+   */
+  getAvailablePermissionsMiddleware (
+    domain: IOriginMetadata,
+    _req: JsonRpcRequest<any>,
+    res: JsonRpcResponse<any>,
+    _next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+  ): void {
+    res.result = this.getAvailablePermissions(domain.origin);
+    end();
+  }
+
+  /**
+   * Checks that the approved permissions do not exceed the requested ones.
+   * Methods may be left out, and caveats may be added or tightened, but
+   * requested caveats may not be removed or loosened, and requested
+   * expiration times may not be extended.
+   * Throws an internal error describing the first violation found.
+   * Returns the granted and denied methods.
+   *
+   * @param {IRequestedPermissions} requested - The requested permissions.
+   * @param {IRequestedPermissions} approved - The approved permissions.
+   */
+  validateApprovedPermissions (
+    requested: IRequestedPermissions,
+    approved: IRequestedPermissions
+  ): IPermissionsDiff {
+
+    for (const methodName in approved) {
+
+      if (!this.getMethodKeyFor(methodName)) {
+        throw methodNotFound({ methodName });
+      }
+
+      if (!requested[methodName]) {
+        throw internalError({
+          message: `Approved method '${methodName}' was not requested.`,
+          data: { requested, approved },
+        });
+      }
+
+      const { expires } = requested[methodName];
+      const approvedExpires = approved[methodName].expires;
+      if (
+        expires !== undefined &&
+        (approvedExpires === undefined || approvedExpires > expires)
+      ) {
+        throw internalError({
+          message: `Approved expiration time for method '${methodName}' exceeds the request.`,
+          data: { requested, approved },
+        });
+      }
+
+      const approvedCaveats = approved[methodName].caveats || [];
+      for (const caveat of requested[methodName].caveats || []) {
+        if (!approvedCaveats.some(c => this._isCaveatAsTight(c, caveat))) {
+          throw internalError({
+            message: `Approved permission for method '${methodName}' removes or loosens caveat '${caveat.name || caveat.type}'.`,
+            data: { requested, approved },
+          });
+        }
+      }
+    }
+
+    const granted = Object.keys(approved);
+    return {
+      granted,
+      denied: Object.keys(requested).filter(methodName => !granted.includes(methodName)),
+    };
+  }
+
+  /**
+   * Internal function used to check whether a caveat is at least as
+   * restrictive as another, using the comparator of its type.
+   */
+  private _isCaveatAsTight (caveat: IOcapLdCaveat, otherCaveat: IOcapLdCaveat): boolean {
+    if (caveat.type !== otherCaveat.type || caveat.name !== otherCaveat.name) {
+      return false;
+    }
+    if (isDeepStrictEqual(caveat.value, otherCaveat.value)) {
+      return true;
+    }
+
+    // values are only compared once they are known to be valid
+    const caveatType = this.caveatTypes[caveat.type];
+    if (!caveatType?.isTighter) {
+      return false;
+    }
+    if (caveatType.valueSchema && (
+      validateSchema(caveat.value, caveatType.valueSchema) ||
+      validateSchema(otherCaveat.value, caveatType.valueSchema)
+    )) {
+      return false;
+    }
+    return caveatType.isTighter(caveat.value, otherCaveat.value);
+  }
+
+  /**
+   * Check if a request to revokePermissionsMiddleware is valid.
+   */
+  validateRevocationRequest (req: JsonRpcRequest<any>): void {
+
+    if (
+      !req ||
+      !Array.isArray(req.params) ||
+      !Array.isArray(req.params[0]) ||
+      req.params[0].some((identifier: any) => typeof identifier !== 'string')
+    ) {
+      throw invalidReq({ data: req });
+    }
+  }
+
+  /**
+   * The capabilities middleware function used for revoking permissions of
+   * the requesting domain.
+   * Expects params of the form [identifiers], see revokePermissions.
+   */
+  revokePermissionsMiddleware (
+    domain: IOriginMetadata,
+    req: JsonRpcRequest<any>,
+    res: JsonRpcResponse<any>,
+    _next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+  ): void {
+
+    try {
+      this.validateRevocationRequest(req);
+      res.result = this.revokePermissions(domain.origin, req.params[0]);
+    } catch (err) {
+      res.error = err;
+      return end(res.error);
+    }
+
+    end();
+  }
+
+  /**
+   * The capabilities middleware function used for delegating permissions of
+   * the requesting domain to another domain.
+   * Expects params of the form [delegatee, IRequestedPermissions].
+   */
+  delegatePermissionsMiddleware (
+    domain: IOriginMetadata,
+    req: JsonRpcRequest<any>,
+    res: JsonRpcResponse<any>,
+    _next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+  ): void {
+
+    try {
+      this.validateDelegationRequest(req);
+      res.result = this.delegatePermissions(domain.origin, req.params[0], req.params[1]);
+    } catch (err) {
+      res.error = err;
+      return end(res.error);
+    }
+
+    end();
+  }
+
   /**
    * The capabilities middleware function used for requesting additional permissions from the user.
    */
@@ -842,43 +2790,181 @@ export class CapabilitiesController extends BaseController<any, any> implements
       return end(res.error);
     }
 
-    if (!metadata.id) {
-      metadata.id = uuid();
+    const { origin } = metadata;
+    const connection = this.metadataConnections.get(metadata);
+    const permissions = this._addDependencies(origin, req.params[0]);
+    const queue = this.permissionsRequestQueues[origin] || [];
+
+    // Identical requests share the pending result:
+    const duplicate = queue.find(
+      queued => isDeepStrictEqual(queued.requested, permissions)
+    );
+    if (duplicate) {
+      duplicate.responders.push({ res, end, connection });
+      return undefined;
+    }
+
+    if (queue.length >= this.maxPendingPermissionsRequests) {
+      res.error = requestAlreadyPending({
+        message: `Permissions request already pending for origin '${origin}'.`,
+        data: req,
+      });
+      return end(res.error);
+    }
+
+    const request: IPermissionsRequest = {
+      origin,
+      metadata: { ...metadata, id: metadata.id || uuid() },
+      permissions,
+    };
+
+    // Describe the params and results of the requested methods, if known:
+    const schemas: { [methodName: string]: IMethodSchemas } = {};
+    Object.keys(permissions).forEach((methodName) => {
+      const methodSchemas = this.getMethodSchemas(methodName);
+      if (Object.keys(methodSchemas).length > 0) {
+        schemas[methodName] = methodSchemas;
+      }
+    });
+    if (Object.keys(schemas).length > 0) {
+      request.schemas = schemas;
+    }
+
+    queue.push({
+      request,
+      requested: JSON.parse(JSON.stringify(permissions)),
+      req,
+      responders: [{ res, end, connection }],
+    });
+    this.permissionsRequestQueues[origin] = queue;
+
+    // Only one prompt per origin is active at a time:
+    if (queue.length === 1) {
+      this._promptPermissionsRequest(queue[0]);
+    }
+  }
+
+  /**
+   * Internal function used to add the dependencies of the requested methods
+   * to the request, unless the origin already holds them.
+   */
+  private _addDependencies (
+    origin: string,
+    requested: IRequestedPermissions
+  ): IRequestedPermissions {
+    const permissions = { ...requested };
+    const pending = Object.keys(requested);
+
+    while (pending.length > 0) {
+      const { required, optional } = this.getMethodDependencies(pending.shift() as string);
+      [...required, ...optional].forEach((dependency) => {
+        if (!permissions[dependency] && !this.getPermission(origin, dependency)) {
+          permissions[dependency] = {};
+          pending.push(dependency);
+        }
+      });
     }
+    return permissions;
+  }
 
-    const permissions: IRequestedPermissions = req.params[0];
-    const requests = this.getPermissionsRequests();
+  /**
+   * Internal function used to prompt the user for a queued permissions
+   * request, respond to everyone waiting for it, and then prompt for the
+   * next request of the same origin.
+   */
+  private _promptPermissionsRequest (queued: QueuedPermissionsRequest): void {
+    const { request: permissionsRequest, requested, req } = queued;
+    const { origin, metadata } = permissionsRequest;
+    const requestId = metadata.id as string;
+    const response: JsonRpcResponse<any> = { id: req.id, jsonrpc: req.jsonrpc };
+
+    const respond = (): void => {
+      const queue = this.permissionsRequestQueues[origin];
+      queue.shift();
+      if (queue.length > 0) {
+        this._promptPermissionsRequest(queue[0]);
+      } else {
+        delete this.permissionsRequestQueues[origin];
+      }
 
-    const permissionsRequest: IPermissionsRequest = {
-      origin: metadata.origin,
-      metadata,
-      permissions: permissions,
+      queued.responders.forEach(({ res, end }) => {
+        if (response.error) {
+          res.error = response.error;
+          return end(res.error);
+        }
+        res.result = response.result;
+        return end();
+      });
     };
 
-    requests.push(permissionsRequest);
-    this.setPermissionsRequests(requests);
+    this.setPermissionsRequests([ ...this.getPermissionsRequests(), permissionsRequest ]);
+    this._emit('permissionsRequested', {
+      origin,
+      requestId,
+      methods: Object.keys(requested),
+    });
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const approvalTimeout = typeof this.approvalTimeout === 'function'
+      ? this.approvalTimeout(permissionsRequest)
+      : this.approvalTimeout;
+
+    // The request is settled by its prompt, or by the imperative API:
+    new Promise<IRequestedPermissions>((resolve, reject) => {
+      this.pendingApprovals[requestId] = { resolve, reject };
+
+      if (approvalTimeout !== undefined) {
+        timeout = setTimeout(() => {
+          reject(userRejectedRequest(req, 'Permissions request timed out.'));
+        }, approvalTimeout);
+      }
 
-    this.requestUserApproval(permissionsRequest)
-    // TODO: Allow user to pass back an object describing
-    // the approved permissions, allowing user-customization.
+      this.requestUserApproval(permissionsRequest)
+        .then((approved) => {
+          if (approved) {
+            resolve(approved);
+          }
+        })
+        .catch(reject);
+    })
+      .finally(() => {
+      // Delete the request object before responding
+        if (timeout !== undefined) {
+          clearTimeout(timeout);
+        }
+        delete this.pendingApprovals[requestId];
+        this.removePermissionsRequest(requestId);
+      })
       .then((approved: IRequestedPermissions) => {
         if (Object.keys(approved).length === 0) {
-          res.error = userRejectedRequest(req);
-          return end(res.error);
+          this._logRejectedRequest(origin, requested);
+          response.error = userRejectedRequest(req);
+          return respond();
+        }
+
+        // User approval may narrow, but never exceed, the request:
+        let diff: IPermissionsDiff;
+        try {
+          diff = this.validateApprovedPermissions(requested, approved);
+        } catch (err) {
+          response.error = err;
+          return respond();
         }
 
-        // If user approval is different, use it as the permissions:
-        this.grantNewPermissions(metadata.origin, approved, res, end);
+        this.grantNewPermissions(origin, approved, response, () => {
+          if (!response.error) {
+            const result: IPermissionsRequestResult = { permissions: response.result, ...diff };
+            response.result = result;
+            this._mergeSubjectMetadata(origin, getSubjectDetails(metadata));
+            this._emit('permissionsApproved', { origin, requestId, ...diff });
+          }
+          respond();
+        });
       })
       .catch((reason) => {
-        res.error = reason;
-        return end(reason);
-      })
-      .finally(() => {
-      // Delete the request object
-        if (permissionsRequest.metadata.id) {
-          this.removePermissionsRequest(permissionsRequest.metadata.id);
-        }
+        this._logRejectedRequest(origin, requested);
+        response.error = reason;
+        return respond();
       });
   }
 }
@@ -1,6 +1,9 @@
 import { JsonRpcRequest, JsonRpcResponse, JsonRpcError, JsonRpcEngine } from 'json-rpc-engine';
 import { IOcapLdCapability, IOcapLdCaveat } from './ocap-ld';
 import { JsonRpcMiddleware, JsonRpcEngineEndCallback, JsonRpcEngineNextCallback } from 'json-rpc-engine';
+import { KeyLike } from 'crypto';
+import { ISchemaError } from '../schema';
+import { ICaveatCounter, ICaveatFunctionGenerator } from '../caveats';
 
 export interface AuthenticatedJsonRpcMiddleware {
   (
@@ -12,6 +15,22 @@ export interface AuthenticatedJsonRpcMiddleware {
   ): void;
 }
 
+/**
+ * The outcome of a permissions request, by method name.
+ */
+export interface IPermissionsDiff {
+  granted: string[];
+  denied: string[];
+}
+
+/**
+ * The result of a granted permissions request: the permissions of the
+ * domain, and which of the requested methods were granted.
+ */
+export interface IPermissionsRequestResult extends IPermissionsDiff {
+  permissions: IOcapLdCapability[];
+}
+
 /**
  * Used for prompting the user about a proposed new permission.
  * Includes information about the domain granted, as well as the permissions assigned.
@@ -20,13 +39,34 @@ export interface IPermissionsRequest {
   origin: string;
   metadata: IOriginMetadata;
   permissions: IRequestedPermissions;
+  // The schemas of the requested methods that have any, by method name.
+  schemas?: { [methodName: string]: IMethodSchemas };
 }
 
-export interface IOriginMetadata {
+export interface IOriginMetadata extends ISubjectDetails {
   id?: string;
   origin: IOriginString;
 }
 
+export type SubjectType = 'website' | 'extension' | 'plugin';
+
+/**
+ * Describes a subject, i.e. the entity behind an origin, for display.
+ */
+export interface ISubjectDetails {
+  name?: string;
+  iconUrl?: string;
+  subjectType?: SubjectType;
+  extensionId?: string;
+}
+
+export interface ISubjectMetadata extends ISubjectDetails {
+  // When the subject was first granted permissions.
+  firstSeen: number;
+  // When the subject last called a restricted method.
+  lastUsed?: number;
+}
+
 /**
  * The format submitted by a domain to request an expanded set of permissions.
  * Assumes knowledge of the requesting domain's context.
@@ -44,38 +84,275 @@ export interface IRequestedPermissions { [methodName: string]: IMethodRequest }
 type IMethodRequest = Partial<IOcapLdCapability>;
 
 export interface UserApprovalPrompt {
-  (permissionsRequest: IPermissionsRequest): Promise<IRequestedPermissions>;
+  // Resolving without permissions leaves the request pending, to be settled
+  // with approvePermissionsRequest or rejectPermissionsRequest.
+  (permissionsRequest: IPermissionsRequest): Promise<IRequestedPermissions | void>;
+}
+
+/**
+ * Sent to the connections of a domain when its permissions change.
+ */
+export interface IPermissionsChangedNotification {
+  jsonrpc: '2.0';
+  method: string;
+  // The new result of getPermissions.
+  params: [IOcapLdCapability[]];
+}
+
+/**
+ * A connection to a domain, like its engine, notified by emitting
+ * `notification` events.
+ */
+export interface IPermissionsConnection {
+  emit: (event: 'notification', notification: IPermissionsChangedNotification) => any;
 }
 
 export interface RpcCapDomainEntry {
   permissions: IOcapLdCapability[];
+  metadata?: ISubjectMetadata;
 }
 
 type IOriginString = string;
 
-export interface ISemanticCaveatTypeConfig {}
+/**
+ * A caveat type that can be attached to permissions.
+ */
+export interface ISemanticCaveatTypeConfig {
+  // Creates the middleware enforcing a caveat of this type.
+  generator: ICaveatFunctionGenerator;
+  // The restricted method keys this caveat type may be attached to.
+  // If omitted, it may be attached to any restricted method.
+  methods?: string[];
+  // The schema that caveat values of this type must match.
+  valueSchema?: IJsonSchema;
+  // Validates values beyond the schema, returning the first error found.
+  validateValue?: (value: any) => ISchemaError | undefined;
+  // Whether a value is at least as restrictive as another value, allowing
+  // user approval to tighten requested caveats of this type.
+  // If omitted, requested caveats of this type can't be changed.
+  isTighter?: (value: any, otherValue: any) => boolean;
+}
+
+export type IJsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A subset of JSON Schema, used to validate caveat values.
+ */
+export interface IJsonSchema {
+  type?: IJsonSchemaType | IJsonSchemaType[];
+  enum?: any[];
+  anyOf?: IJsonSchema[];
+  properties?: { [key: string]: IJsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | IJsonSchema;
+  items?: IJsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/**
+ * The Ed25519 keys used to sign issued capabilities and verify loaded ones.
+ * Keys may be PEM strings, DER buffers or KeyObjects. Without a private key,
+ * capabilities are only verified, and none can be issued.
+ */
+export interface ICapabilitySigningConfig {
+  // Identifies the signer in the creator field of each proof.
+  creator: string;
+  privateKey?: KeyLike;
+  publicKey?: KeyLike;
+}
+
+/**
+ * Persists the state of a controller, see src/storage.ts for the bundled
+ * implementations.
+ */
+export interface IStorageAdapter {
+  // Resolves the stored state, or undefined if none is stored.
+  load: () => Promise<Partial<CapabilitiesState> | undefined>;
+  // Replaces the stored state, atomically.
+  save: (state: CapabilitiesState) => Promise<void>;
+  // Runs the given operation after all earlier ones settled, so that
+  // operations never interleave.
+  transaction: <T>(operation: () => Promise<T>) => Promise<T>;
+}
+
+export interface IStorageConfig {
+  adapter: IStorageAdapter;
+  // The time in milliseconds by which saves are delayed, so that the state
+  // changes within it are written at once. Defaults to 100.
+  debounce?: number;
+}
+
+/**
+ * Enables the activity log, kept in the controller's `activityLog` state.
+ */
+export interface IActivityLogConfig {
+  // The maximum number of entries kept, oldest entries are dropped first.
+  // Defaults to 1000.
+  maxEntries?: number;
+  // Whether to record the params of restricted method invocations.
+  includeParams?: boolean;
+}
+
+export type IActivityType =
+  'grant' | 'revoke' | 'caveatAdded' | 'caveatUpdated' | 'requestRejected' | 'invocation';
+
+export interface IActivityLogEntry {
+  id: string;
+  type: IActivityType;
+  origin: IOriginString;
+  method: string;
+  capabilityId?: string;
+  outcome: 'success' | 'failure';
+  // The date of the activity, in UNIX epoch time
+  timestamp: number;
+  // The params of invocations, if enabled
+  params?: any;
+}
+
+/**
+ * Filters activity log entries. All given conditions must match.
+ */
+export interface IActivityLogQuery {
+  origin?: IOriginString;
+  method?: string;
+  // The earliest and latest timestamps to include, in UNIX epoch time
+  from?: number;
+  to?: number;
+}
+
+/**
+ * A permission affected by a lifecycle event.
+ */
+export interface IPermissionEventEntry {
+  method: string;
+  capabilityId: string;
+}
+
+export interface IPermissionsRequestedEvent {
+  origin: IOriginString;
+  requestId: string;
+  methods: string[];
+}
+
+export interface IPermissionsApprovedEvent extends IPermissionsDiff {
+  origin: IOriginString;
+  requestId: string;
+}
+
+export interface IPermissionsEvent {
+  origin: IOriginString;
+  permissions: IPermissionEventEntry[];
+}
+
+export interface ICaveatEvent {
+  origin: IOriginString;
+  method: string;
+  capabilityId: string;
+  caveat: IOcapLdCaveat;
+}
+
+export interface IDomainClearedEvent {
+  origin: IOriginString;
+}
+
+export interface IStorageErrorEvent {
+  operation: 'load' | 'save';
+  error: Error;
+}
+
+/**
+ * The events emitted by the controller, with their payloads.
+ */
+export interface ICapabilitiesEvents {
+  permissionsRequested: IPermissionsRequestedEvent;
+  // A permissions request was approved and granted, possibly in part.
+  permissionsApproved: IPermissionsApprovedEvent;
+  permissionsGranted: IPermissionsEvent;
+  permissionsRevoked: IPermissionsEvent;
+  caveatAdded: ICaveatEvent;
+  caveatUpdated: ICaveatEvent;
+  domainCleared: IDomainClearedEvent;
+  // Loading or a debounced save of the state failed.
+  storageError: IStorageErrorEvent;
+}
+
+export type ICapabilitiesEventListener<E extends keyof ICapabilitiesEvents> =
+  (payload: ICapabilitiesEvents[E]) => void;
 
 export interface CapabilitiesConfig {
   requestUserApproval: UserApprovalPrompt;
+  // The time in milliseconds after which pending permissions requests are
+  // rejected, or a function returning it for each request when it is shown.
+  // If omitted, or undefined for a request, requests stay pending until settled.
+  approvalTimeout?: number | ((permissionsRequest: IPermissionsRequest) => number | undefined);
+  // The maximum number of pending permissions requests per origin, of which
+  // only the oldest is prompted. Defaults to 1.
+  maxPendingPermissionsRequests?: number;
+  activityLog?: IActivityLogConfig;
   engine?: JsonRpcEngine;
   initState?: CapabilitiesConfig;
   methodPrefix?: string;
+  // Separates the segments of namespaced method names. Defaults to `_`.
+  methodSeparator?: string;
   restrictedMethods?: RestrictedMethodMap;
   safeMethods?: string[];
   semanticCaveatTypes?: { [name: string]: ISemanticCaveatTypeConfig };
+  signing?: ICapabilitySigningConfig;
+  storage?: IStorageConfig;
 }
 
 type RpcCapDomainRegistry = { [domain:string]: RpcCapDomainEntry };
 
+/**
+ * A corrupt domain entry found when loading state, with the reason it was
+ * rejected.
+ */
+export interface IQuarantinedDomain {
+  entry: any;
+  reason: string;
+}
+
 export interface CapabilitiesState {
+  // The version of the state shape, upgraded by migrations when loading state.
+  version?: number;
   domains: RpcCapDomainRegistry;
+  // Corrupt domain entries found when loading state, by origin.
+  quarantinedDomains?: { [origin: string]: IQuarantinedDomain };
+  // Persisted caveat counters, by capability id and caveat name or type.
+  caveatCounters?: { [capabilityId: string]: { [caveatKey: string]: ICaveatCounter } };
+  activityLog?: IActivityLogEntry[];
+  // The origins of each subject group, by group name.
+  subjectGroups?: { [groupName: string]: string[] };
 }
 
 export interface RestrictedMethodEntry {
   description: string;
   method: PermittedJsonRpcMiddleware;
+  // Other restricted methods the method calls through its engine.
+  dependencies?: IMethodDependencies;
+  // The schemas that the params and result of the method must match.
+  paramsSchema?: IJsonSchema;
+  resultSchema?: IJsonSchema;
 } 
 
+export interface IMethodSchemas {
+  paramsSchema?: IJsonSchema;
+  resultSchema?: IJsonSchema;
+}
+
+export interface IMethodDependencies {
+  // Methods without which the method cannot be granted.
+  required?: string[];
+  // Methods that are requested along with the method, but may be denied.
+  optional?: string[];
+}
+
 export interface PermittedJsonRpcMiddleware extends JsonRpcMiddleware {
   (req: JsonRpcRequest<any>, res: JsonRpcResponse<any>, next: JsonRpcEngineNextCallback, end: JsonRpcEngineEndCallback, engine?: JsonRpcEngine): void;
 }
@@ -84,6 +361,67 @@ export interface RestrictedMethodMap {
   [key: string]: RestrictedMethodEntry;
 }
 
+export type IMethodKeyType = 'method' | 'namespace' | 'wildcard';
+
+/**
+ * Describes a restricted method that domains may request permission for.
+ */
+export interface IAvailablePermission {
+  // The restricted method key, e.g. `foo`, `foo_` or `foo_*`.
+  key: string;
+  description: string;
+  type: IMethodKeyType;
+  // The caveat types that may be attached to permissions for the key.
+  caveatTypes: string[];
+  dependencies: Required<IMethodDependencies>;
+  paramsSchema?: IJsonSchema;
+  resultSchema?: IJsonSchema;
+  // Whether the domain holds a permission for a method of the key.
+  held: boolean;
+}
+
+export type IExplanationDecision =
+  'safe' | 'internal' | 'methodNotFound' | 'unauthorized' | 'invalidParams' | 'denied' | 'allowed';
+
+/**
+ * The outcome of a caveat for an explained request: it let the request pass
+ * unchanged, transformed its params or response, failed it, or was skipped
+ * because an earlier caveat ended the request.
+ */
+export interface ICaveatTrace {
+  type: string;
+  name?: string;
+  // The capability of the delegation chain the caveat belongs to.
+  capabilityId: string;
+  outcome: 'pass' | 'transform' | 'fail' | 'skipped';
+  // What a transforming caveat changed. Response transformations are
+  // registered, but not run, as the method is not invoked.
+  transformed?: 'params' | 'response';
+  // The params after the caveat ran.
+  params?: any;
+  error?: JsonRpcError<any>;
+}
+
+/**
+ * Describes how a request would be handled, see `explain`.
+ */
+export interface IExplanation {
+  origin: IOriginString;
+  method: string;
+  decision: IExplanationDecision;
+  // Whether the request would be passed on, handled, or reach its method.
+  allowed: boolean;
+  // The restricted method key managing the method, if any.
+  methodKey?: string;
+  // The capability authorizing the request, if any. Its invoker may be an
+  // origin pattern or subject group the origin belongs to.
+  capability?: IOcapLdCapability;
+  caveats: ICaveatTrace[];
+  // The params the method would be invoked with.
+  params?: any;
+  error?: JsonRpcError<any>;
+}
+
 export interface RpcCapInterface {
   getPermissionsForDomain: (domain: string) => IOcapLdCapability[];
   getPermission: (domain: string, method: string) => IOcapLdCapability | undefined;
@@ -96,12 +434,45 @@ export interface RpcCapInterface {
   setDomain: (domain: string, settings: RpcCapDomainEntry) => void;
   addPermissionsFor: (domainName: string, newPermissions: { [methodName: string]: IOcapLdCapability }) => void;
   removePermissionsFor: (domain: string, permissionsToRemove: IOcapLdCapability[]) => void;
-  createBoundMiddleware: (domain: string) => PermittedJsonRpcMiddleware;
-  createPermissionedEngine: (domain: string) => JsonRpcEngine;
+  removeExpiredPermissions: () => { [domain: string]: IOcapLdCapability[] };
+  delegatePermissions: (delegator: string, delegatee: string, permissions: IRequestedPermissions) => IOcapLdCapability[];
+  revokePermissions: (domainName: string, identifiers: string[]) => IOcapLdCapability[];
+  getMethodDependencies: (method: string) => Required<IMethodDependencies>;
+  getSubjectGroups: () => { [groupName: string]: string[] };
+  setSubjectGroup: (groupName: string, origins: string[]) => void;
+  getSubjectMetadata: (origin: string) => ISubjectMetadata | undefined;
+  updateSubjectMetadata: (origin: string, details: ISubjectDetails) => void;
+  trackConnection: (origin: string, connection: IPermissionsConnection) => void;
+  untrackConnection: (origin: string, connection?: IPermissionsConnection) => void;
+  loadFromStorage: () => Promise<boolean>;
+  getAvailablePermissions: (domain: string) => IAvailablePermission[];
+  getMethodSchemas: (method: string) => IMethodSchemas;
+  explain: (origin: string, request: Partial<JsonRpcRequest<any>>) => Promise<IExplanation>;
+  flushStorage: () => Promise<void>;
+  approvePermissionsRequest: (requestId: string, permissions: IRequestedPermissions) => void;
+  rejectPermissionsRequest: (requestId: string, reason?: string) => void;
+  rejectPermissionsRequestsFor: (origin: string) => void;
+  getCapability: (id: string) => IOcapLdCapability | undefined;
+  getCapabilityChain: (capability: IOcapLdCapability) => IOcapLdCapability[];
+  verifyPermission: (permission: IOcapLdCapability) => boolean;
+  importDomains: (domains: RpcCapDomainRegistry) => RpcCapDomainRegistry;
+  registerCaveatType: (type: string, caveatType: ISemanticCaveatTypeConfig) => void;
+  validateCaveatValues: (caveats: IOcapLdCaveat[]) => void;
+  validateApprovedPermissions: (requested: IRequestedPermissions, approved: IRequestedPermissions) => IPermissionsDiff;
+  getCaveatCounters: (capabilityId: string) => { [caveatKey: string]: ICaveatCounter };
+  resetCaveatCounters: (capabilityId: string, caveatKey?: string) => void;
+  getActivityLog: (query?: IActivityLogQuery) => IActivityLogEntry[];
+  clearActivityLog: () => void;
+  on: <E extends keyof ICapabilitiesEvents>(event: E, listener: ICapabilitiesEventListener<E>) => void;
+  off: <E extends keyof ICapabilitiesEvents>(event: E, listener: ICapabilitiesEventListener<E>) => void;
+  createBoundMiddleware: (domain: string, details?: ISubjectDetails, connection?: IPermissionsConnection) => PermittedJsonRpcMiddleware;
+  createPermissionedEngine: (domain: string, details?: ISubjectDetails, track?: boolean) => JsonRpcEngine;
 
   // Injected permissions-handling methods:
   providerMiddlewareFunction: AuthenticatedJsonRpcMiddleware;
   getPermissionsMiddleware: AuthenticatedJsonRpcMiddleware;
   requestPermissionsMiddleware: AuthenticatedJsonRpcMiddleware;
+  delegatePermissionsMiddleware: AuthenticatedJsonRpcMiddleware;
+  revokePermissionsMiddleware: AuthenticatedJsonRpcMiddleware;
   executeMethod: AuthenticatedJsonRpcMiddleware;
 }
@@ -4,9 +4,9 @@
  * Roughly implements the ocap-ld schema:
  * https://w3c-ccg.github.io/ocap-ld/
  * 
- * Does not currently include signatures or nested delegated capabilities.
- * Both of these would be good extensions later on, and some prior work has been done
- * in that direction at digitalbazaar:
+ * Delegated capabilities point at their parent capability's id, and
+ * capabilities may be signed with an Ed25519 proof.
+ * Some prior work has been done in that direction at digitalbazaar:
  * https://github.com/digitalbazaar/ocapld.js/
  */
 interface IOcapLdCapability {
@@ -20,6 +20,8 @@ interface IOcapLdCapability {
   invoker: string;
   // The issuing date, in UNIX epoch time
   date?: number;
+  // The expiration date, in UNIX epoch time
+  expires?: number;
   // An optional array of caveat objects.
   caveats?: IOcapLdCaveat[];
   proof?: IOcapLdProof;
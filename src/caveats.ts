@@ -1,12 +1,34 @@
+import { isDeepStrictEqual } from 'util';
 import { JsonRpcMiddleware } from 'json-rpc-engine';
 import { isSubset } from './@types/is-subset';
 import { IOcapLdCaveat } from './@types/ocap-ld'
-import { unauthorized } from './errors';
+import { ISemanticCaveatTypeConfig } from './@types';
+import { unauthorized, limitExceeded } from './errors';
+import { evaluateParamPolicy, validateParamPolicy } from './paramPolicy';
+import { shapeResponse as applyResponseShape, responseShapeSchema } from './responseShape';
 const isSubset = require('is-subset');
 
 export type ICaveatFunction = JsonRpcMiddleware;
 
-export type ICaveatFunctionGenerator = (caveat:IOcapLdCaveat) => ICaveatFunction;
+/*
+ * A persisted counter, kept in controller state per capability and caveat.
+ */
+export interface ICaveatCounter {
+  count: number;
+  // The start of the current time window, in UNIX epoch time.
+  windowStart?: number;
+}
+
+/*
+ * Gives a caveat function access to the capability it belongs to.
+ */
+export interface ICaveatContext {
+  capabilityId: string;
+  getCounter: () => ICaveatCounter | undefined;
+  setCounter: (counter: ICaveatCounter) => void;
+}
+
+export type ICaveatFunctionGenerator = (caveat:IOcapLdCaveat, context: ICaveatContext) => ICaveatFunction;
 
 /*
  * Require that the request params match those specified by the caveat value.
@@ -25,6 +47,26 @@ export const requireParams: ICaveatFunctionGenerator = function requireParams(se
   }
 }
 
+/*
+ * Requires the params to satisfy a declarative policy, see `paramPolicy.ts`.
+ */
+export const paramPolicy: ICaveatFunctionGenerator = function paramPolicy(serialized: IOcapLdCaveat) {
+  const { value } = serialized;
+  return (req, res, next, end) => {
+    const failure = evaluateParamPolicy(value, req.params);
+
+    if (failure) {
+      res.error = unauthorized({
+        message: `Parameter policy rule '${failure.rule}' failed: ${failure.message}.`,
+        data: req,
+      });
+      return end(res.error);
+    }
+
+    next();
+  }
+}
+
 /*
  * Filters array results shallowly.
  */
@@ -43,6 +85,20 @@ export const filterResponse: ICaveatFunctionGenerator = function filterResponse(
   }
 }
 
+/*
+ * Shapes object and array results, see `responseShape.ts`.
+ */
+export const shapeResponse: ICaveatFunctionGenerator = function shapeResponse(serialized: IOcapLdCaveat) {
+  const { value } = serialized;
+  return (_req, res, next, _end) => {
+
+    next((done) => {
+      res.result = applyResponseShape(res.result, value);
+      done();
+    });
+  }
+}
+
 /*
  * Forces the method to be called with given params.
  */
@@ -53,3 +109,110 @@ export const forceParams: ICaveatFunctionGenerator = function forceParams(serial
       next();
   };
 }
+
+/*
+ * Limits the number of calls to the method within each time period.
+ */
+export const rateLimit: ICaveatFunctionGenerator = function rateLimit(serialized: IOcapLdCaveat, context: ICaveatContext) {
+  const { limit, period } = serialized.value;
+  return (req, res, next, end) => {
+    const now = Date.now();
+    let counter = context.getCounter();
+
+    if (!counter || counter.windowStart === undefined || now - counter.windowStart >= period) {
+      counter = { count: 0, windowStart: now };
+    }
+
+    if (counter.count >= limit) {
+      res.error = limitExceeded({
+        message: `Rate limit exceeded: ${limit} calls per ${period} ms.`,
+        data: req,
+      });
+      return end(res.error);
+    }
+
+    context.setCounter({ ...counter, count: counter.count + 1 });
+    next();
+  }
+}
+
+/*
+ * Limits the total number of calls to the method.
+ * A limit of 1 makes a single-use permission.
+ */
+export const quota: ICaveatFunctionGenerator = function quota(serialized: IOcapLdCaveat, context: ICaveatContext) {
+  const { limit } = serialized.value;
+  return (req, res, next, end) => {
+    const counter = context.getCounter() || { count: 0 };
+
+    if (counter.count >= limit) {
+      res.error = limitExceeded({
+        message: `Quota exhausted: ${limit} calls.`,
+        data: req,
+      });
+      return end(res.error);
+    }
+
+    context.setCounter({ ...counter, count: counter.count + 1 });
+    next();
+  }
+}
+
+/*
+ * The caveat types registered on every controller.
+ */
+export const builtinCaveatTypes: { [type: string]: ISemanticCaveatTypeConfig } = {
+  requireParams: {
+    generator: requireParams,
+    valueSchema: { type: ['array', 'object'] },
+    // requiring more params is more restrictive
+    isTighter: (value, otherValue) => isSubset(value, otherValue),
+  },
+  paramPolicy: {
+    generator: paramPolicy,
+    validateValue: validateParamPolicy,
+  },
+  filterResponse: {
+    generator: filterResponse,
+    valueSchema: { type: 'array' },
+    // allowing fewer items is more restrictive
+    isTighter: (value: any[], otherValue: any[]) => value.every(
+      item => otherValue.some(otherItem => isDeepStrictEqual(item, otherItem))
+    ),
+  },
+  shapeResponse: {
+    generator: shapeResponse,
+    valueSchema: responseShapeSchema,
+  },
+  forceParams: {
+    generator: forceParams,
+    valueSchema: { type: 'array' },
+  },
+  rateLimit: {
+    generator: rateLimit,
+    valueSchema: {
+      type: 'object',
+      required: ['limit', 'period'],
+      properties: {
+        limit: { type: 'integer', minimum: 1 },
+        period: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    isTighter: (value, otherValue) => (
+      value.limit <= otherValue.limit && value.period >= otherValue.period
+    ),
+  },
+  quota: {
+    generator: quota,
+    valueSchema: {
+      type: 'object',
+      required: ['limit'],
+      properties: {
+        limit: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    isTighter: (value, otherValue) => value.limit <= otherValue.limit,
+  },
+}
@@ -1,9 +1,11 @@
-import { JsonRpcRequest } from 'json-rpc-engine';
+import { JsonRpcError, JsonRpcRequest } from 'json-rpc-engine';
 
 import { IEthErrors, IEthereumRpcError } from 'eth-json-rpc-errors/@types';
 
 const ethErrors: IEthErrors = require('eth-json-rpc-errors').ethErrors;
 
+const serializeError: (error: any) => JsonRpcError<any> = require('eth-json-rpc-errors').serializeError;
+
 interface ErrorArg {
   message?: string,
   data?: JsonRpcRequest<any> | any
@@ -22,6 +24,8 @@ function unauthorized (arg?: ErrorArg): IEthereumRpcError<JsonRpcRequest<any>> {
 
 const invalidReq = ethErrors.rpc.invalidRequest
 
+const invalidParams = ethErrors.rpc.invalidParams
+
 const internalError = ethErrors.rpc.internal
 
 function methodNotFound (opts: MethodNotFoundArg): IEthereumRpcError<JsonRpcRequest<any>> {
@@ -33,7 +37,24 @@ function methodNotFound (opts: MethodNotFoundArg): IEthereumRpcError<JsonRpcRequ
   return ethErrors.rpc.methodNotFound({ data: opts.data, message });
 }
 
-function userRejectedRequest (request?: JsonRpcRequest<any>): IEthereumRpcError<JsonRpcRequest<any>> {
-  return ethErrors.provider.userRejectedRequest({ data: request });
+const LIMIT_EXCEEDED_CODE = -32005
+
+function limitExceeded (arg?: ErrorArg): IEthereumRpcError<JsonRpcRequest<any>> {
+  return ethErrors.rpc.server({
+    code: LIMIT_EXCEEDED_CODE,
+    message: (arg && arg.message) || 'Limit exceeded.',
+    data: (arg && arg.data) || undefined
+  });
+}
+
+function requestAlreadyPending (arg?: ErrorArg): IEthereumRpcError<JsonRpcRequest<any>> {
+  return ethErrors.rpc.resourceUnavailable({
+    message: (arg && arg.message) || 'Request already pending.',
+    data: (arg && arg.data) || undefined
+  });
+}
+
+function userRejectedRequest (request?: JsonRpcRequest<any>, message?: string): IEthereumRpcError<JsonRpcRequest<any>> {
+  return ethErrors.provider.userRejectedRequest({ message, data: request });
 }
-export { unauthorized, methodNotFound, invalidReq, internalError, userRejectedRequest, IEthErrors };
+export { unauthorized, methodNotFound, invalidReq, invalidParams, internalError, userRejectedRequest, requestAlreadyPending, limitExceeded, serializeError, LIMIT_EXCEEDED_CODE, IEthErrors };
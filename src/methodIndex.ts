@@ -0,0 +1,118 @@
+import { IMethodKeyType } from './@types';
+
+export const DEFAULT_METHOD_SEPARATOR = '_';
+
+/*
+ * A node of the method index, for one namespace prefix.
+ */
+interface IMethodIndexNode {
+  children: Map<string, IMethodIndexNode>;
+  // The namespace key ending at this prefix, e.g. `foo_`.
+  namespace?: string;
+  // The wildcard key ending at this prefix, e.g. `foo_*`.
+  wildcard?: string;
+}
+
+/*
+ * An index of restricted method keys, for resolving requested methods to
+ * the keys managing them.
+ */
+export interface IMethodIndex {
+  separator: string;
+  exact: Set<string>;
+  root: IMethodIndexNode;
+}
+
+function createNode (): IMethodIndexNode {
+  return { children: new Map() };
+}
+
+/*
+ * Gets the node for the given namespace prefix, creating it if needed.
+ */
+function getOrCreateNode (index: IMethodIndex, prefix: string): IMethodIndexNode {
+  return prefix.split(index.separator).reduce((node, segment) => {
+    let child = node.children.get(segment);
+    if (!child) {
+      child = createNode();
+      node.children.set(segment, child);
+    }
+    return child;
+  }, index.root);
+}
+
+/*
+ * Creates an index of the given restricted method keys. Besides exact
+ * method names, keys may be namespaces ending with the separator, like
+ * `foo_`, or wildcards ending with the separator and `*`, like `foo_*`.
+ */
+export function createMethodIndex (
+  methodKeys: string[],
+  separator: string = DEFAULT_METHOD_SEPARATOR
+): IMethodIndex {
+  const index: IMethodIndex = { separator, exact: new Set(methodKeys), root: createNode() };
+  const wildcardSuffix = `${separator}*`;
+
+  methodKeys.forEach((key) => {
+    if (key.endsWith(wildcardSuffix)) {
+      const node = getOrCreateNode(index, key.slice(0, -wildcardSuffix.length));
+      node.wildcard = key;
+    } else if (key.endsWith(separator)) {
+      const node = getOrCreateNode(index, key.slice(0, -separator.length));
+      node.namespace = key;
+    }
+  });
+
+  return index;
+}
+
+/*
+ * Returns whether the given restricted method key is an exact method name,
+ * a namespace or a wildcard.
+ */
+export function getMethodKeyType (
+  key: string,
+  separator: string = DEFAULT_METHOD_SEPARATOR
+): IMethodKeyType {
+  if (key.endsWith(`${separator}*`)) {
+    return 'wildcard';
+  }
+  if (key.endsWith(separator)) {
+    return 'namespace';
+  }
+  return 'method';
+}
+
+/*
+ * Resolves the given method to the key managing it, or to an empty string
+ * if no key manages it. In order of precedence:
+ *
+ * 1. A key equal to the method.
+ * 2. The namespace or wildcard key with the shortest prefix of the method,
+ *    where a namespace `foo_` takes precedence over a wildcard `foo_*`.
+ *
+ * Prefixes end at separators, so `foo_` manages `foo_bar` and `foo_bar_baz`,
+ * as well as `foo` itself, but not `foobar`.
+ * Lookups take time proportional to the number of segments of the method,
+ * regardless of the number of keys.
+ */
+export function getMethodKey (index: IMethodIndex, method: string): string {
+  if (index.exact.has(method)) {
+    return method;
+  }
+
+  let node: IMethodIndexNode | undefined = index.root;
+  for (const segment of method.split(index.separator)) {
+    node = node.children.get(segment);
+    if (!node) {
+      return '';
+    }
+    if (node.namespace) {
+      return node.namespace;
+    }
+    if (node.wildcard) {
+      return node.wildcard;
+    }
+  }
+  return '';
+}
@@ -0,0 +1,118 @@
+import uuid from 'uuid/v4';
+import { IQuarantinedDomain } from './@types';
+
+export const CAPABILITY_CONTEXT = ['https://github.com/MetaMask/rpc-cap'];
+
+/*
+ * The version of the state shape produced by this release.
+ */
+export const STATE_VERSION = 1;
+
+export interface IStateMigration {
+  // The version of the state returned by the migration.
+  version: number;
+  migrate: (state: any) => any;
+}
+
+/*
+ * Upgrades states of earlier versions, ordered by version.
+ * States without a version are of version 0.
+ */
+export const migrations: IStateMigration[] = [
+  {
+    // Fills in the capability fields that version 0 states may lack.
+    version: 1,
+    migrate: (state) => {
+      const domains = state.domains || {};
+      Object.keys(domains).forEach((origin) => {
+        const domain = domains[origin];
+        if (!domain || !Array.isArray(domain.permissions)) {
+          return;
+        }
+        domain.permissions = domain.permissions.map((perm: any) => {
+          if (!perm || typeof perm !== 'object') {
+            return perm;
+          }
+          return {
+            '@context': [...CAPABILITY_CONTEXT],
+            id: uuid(),
+            date: Date.now(),
+            invoker: origin,
+            ...perm,
+          };
+        });
+      });
+      return state;
+    },
+  },
+];
+
+function isCaveat (caveat: any): boolean {
+  return Boolean(caveat) && typeof caveat === 'object' && typeof caveat.type === 'string';
+}
+
+function isCapability (perm: any): boolean {
+  return (
+    Boolean(perm) && typeof perm === 'object' &&
+    typeof perm.id === 'string' &&
+    typeof perm.parentCapability === 'string' &&
+    typeof perm.invoker === 'string' &&
+    (perm.expires === undefined || typeof perm.expires === 'number') &&
+    (perm.caveats === undefined || (Array.isArray(perm.caveats) && perm.caveats.every(isCaveat)))
+  );
+}
+
+/*
+ * Returns the reason the given domain entry is corrupt, or undefined if it
+ * is well formed.
+ */
+export function getDomainEntryError (entry: any): string | undefined {
+  if (!entry || typeof entry !== 'object' || !Array.isArray(entry.permissions)) {
+    return 'Domain entry has no permissions array.';
+  }
+  if (entry.metadata !== undefined && (!entry.metadata || typeof entry.metadata !== 'object')) {
+    return 'Domain entry has malformed subject metadata.';
+  }
+  const index = entry.permissions.findIndex((perm: any) => !isCapability(perm));
+  if (index !== -1) {
+    return `Permission ${index} is malformed.`;
+  }
+  return undefined;
+}
+
+/*
+ * Upgrades the given state to the current version, and moves corrupt
+ * domain entries from `domains` to `quarantinedDomains`.
+ * Throws if the state is of a newer version than this release supports.
+ * The given state is not modified.
+ */
+export function migrateState (initState: any): any {
+  const state = JSON.parse(JSON.stringify(initState || {}));
+  const version = state.version === undefined ? 0 : state.version;
+
+  if (typeof version !== 'number' || version > STATE_VERSION) {
+    throw new Error(`Unsupported state version: '${version}'.`);
+  }
+
+  const migrated = migrations
+    .filter(migration => migration.version > version)
+    .reduce((current, migration) => migration.migrate(current), state);
+
+  if (migrated.domains) {
+    const quarantinedDomains: { [origin: string]: IQuarantinedDomain } = {
+      ...migrated.quarantinedDomains,
+    };
+    Object.keys(migrated.domains).forEach((origin) => {
+      const reason = getDomainEntryError(migrated.domains[origin]);
+      if (reason) {
+        quarantinedDomains[origin] = { entry: migrated.domains[origin], reason };
+        delete migrated.domains[origin];
+      }
+    });
+    if (Object.keys(quarantinedDomains).length > 0) {
+      migrated.quarantinedDomains = quarantinedDomains;
+    }
+  }
+
+  return { ...migrated, version: STATE_VERSION };
+}
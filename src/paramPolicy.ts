@@ -0,0 +1,237 @@
+import { ISchemaError } from './schema';
+import { getAtPath } from './paths';
+
+/*
+ * A number, or an integer as a decimal or `0x`-prefixed hex string, which
+ * is compared without loss of precision.
+ */
+export type INumeric = number | string;
+
+/*
+ * A condition on the value at `path` in the request params, e.g. `0.value`
+ * or `[0].to`. All given operators must hold, and a condition without
+ * operators only requires the value to be present.
+ */
+export interface IParamPolicyCondition {
+  name?: string;
+  path: string;
+  equals?: any;
+  in?: any[];
+  matches?: string;
+  gt?: INumeric;
+  gte?: INumeric;
+  lt?: INumeric;
+  lte?: INumeric;
+}
+
+export type IParamPolicyRule =
+  IParamPolicyCondition |
+  { name?: string; and: IParamPolicyRule[] } |
+  { name?: string; or: IParamPolicyRule[] } |
+  { name?: string; not: IParamPolicyRule };
+
+export interface IParamPolicyFailure {
+  // The name of the failed rule, or its location in the policy.
+  rule: string;
+  message: string;
+}
+
+const CONDITION_KEYS = ['name', 'path', 'equals', 'in', 'matches', 'gt', 'gte', 'lt', 'lte'];
+type BoundOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+const BOUNDS: { [operator in BoundOperator]: string } = {
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+};
+
+function isObject (value: any): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toBigInt (value: any): bigint | undefined {
+  if (
+    (typeof value === 'number' && Number.isInteger(value)) ||
+    (typeof value === 'string' && /^(-?\d+|0x[\da-f]+)$/iu.test(value))
+  ) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+/*
+ * Compares two numerics, returning a negative number, zero or a positive
+ * number, or undefined if either is not numeric.
+ */
+function compare (value: any, bound: INumeric): number | undefined {
+  if (typeof value === 'number' && typeof bound === 'number') {
+    return value - bound;
+  }
+  const bigValue = toBigInt(value);
+  const bigBound = toBigInt(bound);
+  if (bigValue === undefined || bigBound === undefined) {
+    return undefined;
+  }
+  return bigValue === bigBound ? 0 : bigValue < bigBound ? -1 : 1;
+}
+
+function validateCondition (rule: any, path: string): ISchemaError | undefined {
+  for (const key of Object.keys(rule)) {
+    if (!CONDITION_KEYS.includes(key)) {
+      return { path: `${path}.${key}`, message: 'is not allowed' };
+    }
+  }
+  if (typeof rule.path !== 'string') {
+    return { path: `${path}.path`, message: 'must be of type string' };
+  }
+  if (rule.in !== undefined && !Array.isArray(rule.in)) {
+    return { path: `${path}.in`, message: 'must be of type array' };
+  }
+  if (rule.matches !== undefined) {
+    try {
+      new RegExp(rule.matches, 'u');
+    } catch (_err) {
+      return { path: `${path}.matches`, message: 'must be a valid regular expression' };
+    }
+  }
+  for (const operator of Object.keys(BOUNDS)) {
+    if (rule[operator] !== undefined && compare(rule[operator], rule[operator]) === undefined) {
+      return { path: `${path}.${operator}`, message: 'must be a number or an integer string' };
+    }
+  }
+  return undefined;
+}
+
+/*
+ * Validates the structure of a parameter policy.
+ * Returns the first error found, or undefined if the policy is valid.
+ */
+export function validateParamPolicy (rule: any, path = 'value'): ISchemaError | undefined {
+  if (!isObject(rule)) {
+    return { path, message: 'must be of type object' };
+  }
+  if (rule.name !== undefined && typeof rule.name !== 'string') {
+    return { path: `${path}.name`, message: 'must be of type string' };
+  }
+
+  const operators = ['and', 'or', 'not', 'path'].filter(key => key in rule);
+  if (operators.length !== 1) {
+    return { path, message: 'must have exactly one of and, or, not or path' };
+  }
+
+  switch (operators[0]) {
+
+    case 'and':
+    case 'or': {
+      const key = operators[0];
+      const rules = rule[key];
+      if (!Array.isArray(rules) || rules.length === 0) {
+        return { path: `${path}.${key}`, message: 'must be a non-empty array' };
+      }
+      for (const extraKey of Object.keys(rule)) {
+        if (extraKey !== key && extraKey !== 'name') {
+          return { path: `${path}.${extraKey}`, message: 'is not allowed' };
+        }
+      }
+      for (let i = 0; i < rules.length; i++) {
+        const error = validateParamPolicy(rules[i], `${path}.${key}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return undefined;
+    }
+
+    case 'not':
+      for (const extraKey of Object.keys(rule)) {
+        if (extraKey !== 'not' && extraKey !== 'name') {
+          return { path: `${path}.${extraKey}`, message: 'is not allowed' };
+        }
+      }
+      return validateParamPolicy(rule.not, `${path}.not`);
+
+    default:
+      return validateCondition(rule, path);
+  }
+}
+
+function evaluateCondition (rule: IParamPolicyCondition, params: any): string | undefined {
+  const value = getAtPath(params, rule.path);
+  const describe = (expectation: string): string => `'${rule.path}' must ${expectation}`;
+
+  if (value === undefined) {
+    return describe('be present');
+  }
+  if ('equals' in rule && JSON.stringify(value) !== JSON.stringify(rule.equals)) {
+    return describe(`equal ${JSON.stringify(rule.equals)}`);
+  }
+  if (rule.in && !rule.in.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return describe(`be one of ${JSON.stringify(rule.in)}`);
+  }
+  if (
+    rule.matches !== undefined &&
+    (typeof value !== 'string' || !new RegExp(rule.matches, 'u').test(value))
+  ) {
+    return describe(`match ${rule.matches}`);
+  }
+
+  for (const operator of Object.keys(BOUNDS) as BoundOperator[]) {
+    const bound = rule[operator];
+    if (bound === undefined) {
+      continue;
+    }
+    const comparison = compare(value, bound);
+    if (
+      comparison === undefined ||
+      (operator === 'gt' && comparison <= 0) ||
+      (operator === 'gte' && comparison < 0) ||
+      (operator === 'lt' && comparison >= 0) ||
+      (operator === 'lte' && comparison > 0)
+    ) {
+      return describe(`be ${BOUNDS[operator]} ${bound}`);
+    }
+  }
+  return undefined;
+}
+
+/*
+ * Evaluates a valid parameter policy against the given request params.
+ * Returns the first failed rule, or undefined if the params satisfy the
+ * policy.
+ */
+export function evaluateParamPolicy (
+  rule: IParamPolicyRule,
+  params: any,
+  location = 'value'
+): IParamPolicyFailure | undefined {
+  const ruleName = rule.name || location;
+
+  if ('and' in rule) {
+    for (let i = 0; i < rule.and.length; i++) {
+      const failure = evaluateParamPolicy(rule.and[i], params, `${location}.and[${i}]`);
+      if (failure) {
+        return failure;
+      }
+    }
+    return undefined;
+  }
+
+  if ('or' in rule) {
+    const satisfied = rule.or.some((alternative, i) => {
+      return !evaluateParamPolicy(alternative, params, `${location}.or[${i}]`);
+    });
+    return satisfied
+      ? undefined
+      : { rule: ruleName, message: 'none of the alternatives is satisfied' };
+  }
+
+  if ('not' in rule) {
+    return evaluateParamPolicy(rule.not, params, `${location}.not`)
+      ? undefined
+      : { rule: ruleName, message: 'the negated rule is satisfied' };
+  }
+
+  const message = evaluateCondition(rule, params);
+  return message ? { rule: ruleName, message } : undefined;
+}
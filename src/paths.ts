@@ -0,0 +1,16 @@
+/*
+ * Splits a path like `0.to`, `[0].to` or `accounts[1].address` into its
+ * segments. The empty path has no segments.
+ */
+export function parsePath (path: string): string[] {
+  return path.replace(/\[(\d+)\]/gu, '.$1').split('.').filter(Boolean);
+}
+
+/*
+ * Gets the value at the given path, or undefined if there is none.
+ */
+export function getAtPath (value: any, path: string): any {
+  return parsePath(path).reduce((current, segment) => {
+    return current !== null && typeof current === 'object' ? current[segment] : undefined;
+  }, value);
+}
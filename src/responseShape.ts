@@ -0,0 +1,153 @@
+import { isDeepStrictEqual } from 'util';
+import { IJsonSchema } from './@types';
+import { getAtPath, parsePath } from './paths';
+
+/*
+ * Describes how to shape a response. All operations apply to the value at
+ * `path` in the result, in the order filter, limit, pick and omit.
+ * Picking and omitting applies to each item of arrays.
+ */
+export interface IResponseShape {
+  // The location of the shaped value in the result, defaults to the result.
+  path?: string;
+  // Keeps the array items whose `field` equals `equals` or one of `in`.
+  filter?: {
+    field: string;
+    equals?: any;
+    in?: any[];
+  };
+  // The maximum length of arrays.
+  limit?: number;
+  // The paths of the object keys to keep.
+  pick?: string[];
+  // The paths of the object keys to remove.
+  omit?: string[];
+}
+
+export const responseShapeSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string' },
+    filter: {
+      type: 'object',
+      required: ['field'],
+      properties: {
+        field: { type: 'string', minLength: 1 },
+        equals: {},
+        in: { type: 'array' },
+      },
+      additionalProperties: false,
+    },
+    limit: { type: 'integer', minimum: 0 },
+    pick: { type: 'array', items: { type: 'string', minLength: 1 } },
+    omit: { type: 'array', items: { type: 'string', minLength: 1 } },
+  },
+  additionalProperties: false,
+};
+
+function isObject (value: any): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHexString (value: any): boolean {
+  return typeof value === 'string' && /^0x[\da-f]*$/iu.test(value);
+}
+
+/*
+ * Compares values deeply, and hex strings case-insensitively.
+ */
+function valuesMatch (value: any, otherValue: any): boolean {
+  if (isHexString(value) && isHexString(otherValue)) {
+    return value.toLowerCase() === otherValue.toLowerCase();
+  }
+  return isDeepStrictEqual(value, otherValue);
+}
+
+function pickPaths (value: any, paths: string[][]): any {
+  if (!isObject(value)) {
+    return value;
+  }
+  const picked: any = {};
+  paths.forEach(([key, ...rest]) => {
+    if (!(key in value)) {
+      return;
+    }
+    if (rest.length === 0) {
+      picked[key] = value[key];
+    } else if (isObject(value[key])) {
+      picked[key] = { ...picked[key], ...pickPaths(value[key], [rest]) };
+    }
+  });
+  return picked;
+}
+
+function omitPath (value: any, [key, ...rest]: string[]): any {
+  if (!isObject(value) || !(key in value)) {
+    return value;
+  }
+  const copy = { ...value };
+  if (rest.length === 0) {
+    delete copy[key];
+  } else {
+    copy[key] = omitPath(value[key], rest);
+  }
+  return copy;
+}
+
+function shapeValue (value: any, shape: IResponseShape): any {
+  const { filter } = shape;
+  let shaped = value;
+
+  if (filter && Array.isArray(shaped)) {
+    shaped = shaped.filter((item) => {
+      const fieldValue = getAtPath(item, filter.field);
+      if ('equals' in filter && !valuesMatch(fieldValue, filter.equals)) {
+        return false;
+      }
+      return !filter.in || filter.in.some(option => valuesMatch(fieldValue, option));
+    });
+  }
+
+  if (shape.limit !== undefined && Array.isArray(shaped)) {
+    shaped = shaped.slice(0, shape.limit);
+  }
+
+  const mapItems = (fn: (item: any) => any): void => {
+    shaped = Array.isArray(shaped) ? shaped.map(fn) : fn(shaped);
+  };
+
+  if (shape.pick) {
+    const paths = shape.pick.map(parsePath);
+    mapItems(item => pickPaths(item, paths));
+  }
+
+  if (shape.omit) {
+    const paths = shape.omit.map(parsePath);
+    mapItems(item => paths.reduce(omitPath, item));
+  }
+
+  return shaped;
+}
+
+function replaceAtPath (value: any, [key, ...rest]: string[], replace: (value: any) => any): any {
+  if (key === undefined) {
+    return replace(value);
+  }
+  if (value === null || typeof value !== 'object' || !(key in value)) {
+    return value;
+  }
+  const copy = Array.isArray(value) ? [...value] : { ...value };
+  copy[key] = replaceAtPath(value[key], rest, replace);
+  return copy;
+}
+
+/*
+ * Returns a shaped copy of the given result, leaving the result unmodified.
+ */
+export function shapeResponse (result: any, shape: IResponseShape): any {
+  return replaceAtPath(
+    result,
+    parsePath(shape.path || ''),
+    value => shapeValue(value, shape)
+  );
+}
@@ -0,0 +1,123 @@
+import { IJsonSchema, IJsonSchemaType } from './@types';
+
+export interface ISchemaError {
+  // The path to the offending value, e.g. `value.items[0]`.
+  path: string;
+  message: string;
+}
+
+function getType (value: any): IJsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value as IJsonSchemaType;
+}
+
+function matchesType (value: any, type: IJsonSchemaType): boolean {
+  if (type === 'integer') {
+    return Number.isInteger(value);
+  }
+  return getType(value) === type;
+}
+
+/*
+ * Validates the given value against the given schema, which supports a
+ * subset of JSON Schema: type, enum, anyOf, properties, required,
+ * additionalProperties, items, minItems, maxItems, minimum, maximum,
+ * minLength, maxLength and pattern.
+ * Returns the first error found, or undefined if the value is valid.
+ */
+export function validateSchema (
+  value: any,
+  schema: IJsonSchema,
+  path = 'value'
+): ISchemaError | undefined {
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return { path, message: `must be of type ${types.join(' or ')}` };
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return { path, message: `must be one of ${JSON.stringify(schema.enum)}` };
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(s => !validateSchema(value, s, path))) {
+    return { path, message: 'must match at least one allowed schema' };
+  }
+
+  switch (getType(value)) {
+
+    case 'object':
+      for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+          return { path: `${path}.${key}`, message: 'is required' };
+        }
+      }
+      for (const key of Object.keys(value)) {
+        const propertySchema = schema.properties && schema.properties[key];
+        if (propertySchema) {
+          const error = validateSchema(value[key], propertySchema, `${path}.${key}`);
+          if (error) {
+            return error;
+          }
+        } else if (schema.additionalProperties === false) {
+          return { path: `${path}.${key}`, message: 'is not allowed' };
+        } else if (typeof schema.additionalProperties === 'object') {
+          const error = validateSchema(value[key], schema.additionalProperties, `${path}.${key}`);
+          if (error) {
+            return error;
+          }
+        }
+      }
+      break;
+
+    case 'array':
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return { path, message: `must have at least ${schema.minItems} items` };
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return { path, message: `must have at most ${schema.maxItems} items` };
+      }
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const error = validateSchema(value[i], schema.items, `${path}[${i}]`);
+          if (error) {
+            return error;
+          }
+        }
+      }
+      break;
+
+    case 'number':
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return { path, message: `must be at least ${schema.minimum}` };
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return { path, message: `must be at most ${schema.maximum}` };
+      }
+      break;
+
+    case 'string':
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return { path, message: `must have at least ${schema.minLength} characters` };
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return { path, message: `must have at most ${schema.maxLength} characters` };
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+        return { path, message: `must match ${schema.pattern}` };
+      }
+      break;
+
+    default:
+      break;
+  }
+
+  return undefined;
+}
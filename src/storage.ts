@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import uuid from 'uuid/v4';
+import { CapabilitiesState, IStorageAdapter } from './@types';
+
+/*
+ * Creates a transaction function, which runs operations one at a time, in
+ * the order they were given, regardless of whether earlier ones failed.
+ */
+export function createTransactionQueue (): IStorageAdapter['transaction'] {
+  let last: Promise<any> = Promise.resolve();
+  return <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = last.then(operation);
+    last = result.catch(() => undefined);
+    return result;
+  };
+}
+
+function isObject (value: any): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/*
+ * Creates a storage adapter keeping the state in memory, e.g. for tests.
+ * The state is copied on save and load, like it would be serialized.
+ */
+export function createMemoryStorageAdapter (
+  initialState?: Partial<CapabilitiesState>
+): IStorageAdapter {
+  let stored = initialState === undefined ? undefined : JSON.stringify(initialState);
+
+  return {
+    load: () => Promise.resolve(stored === undefined ? undefined : JSON.parse(stored)),
+    save: (state) => {
+      stored = JSON.stringify(state);
+      return Promise.resolve();
+    },
+    transaction: createTransactionQueue(),
+  };
+}
+
+/*
+ * Creates a storage adapter keeping the state in the JSON file at the given
+ * path. The file is replaced atomically, by writing a temporary file next
+ * to it and renaming it, so it is never left partially written.
+ * A file that cannot be parsed is moved to `<path>.corrupt` before loading
+ * fails, so that the next save does not destroy it.
+ */
+export function createJsonFileStorageAdapter (filePath: string): IStorageAdapter {
+  const corruptPath = `${filePath}.corrupt`;
+
+  return {
+    load: () => fs.readFile(filePath, 'utf8')
+      .catch((err) => {
+        if (err.code === 'ENOENT') {
+          return undefined;
+        }
+        throw err;
+      })
+      .then((contents) => {
+        if (contents === undefined) {
+          return undefined;
+        }
+        let state: any;
+        try {
+          state = JSON.parse(contents);
+        } catch (_err) {
+          state = undefined;
+        }
+        if (isObject(state)) {
+          return state;
+        }
+        return fs.rename(filePath, corruptPath).then(() => {
+          throw new Error(`Stored state is not a JSON object, moved to '${corruptPath}'.`);
+        });
+      }),
+
+    save: (state) => {
+      const contents = JSON.stringify(state);
+      const tempPath = `${filePath}.${uuid()}.tmp`;
+      return fs.writeFile(tempPath, contents, 'utf8')
+        .then(() => fs.rename(tempPath, filePath))
+        .catch((err) => {
+          return fs.unlink(tempPath)
+            .catch(() => undefined)
+            .then(() => {
+              throw err;
+            });
+        });
+    },
+
+    transaction: createTransactionQueue(),
+  };
+}
@@ -0,0 +1,101 @@
+import { IJsonSchema, ISubjectDetails } from './@types';
+
+export const SUBJECT_GROUP_PREFIX = 'group:';
+
+export const subjectDetailsSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    iconUrl: { type: 'string' },
+    subjectType: { enum: ['website', 'extension', 'plugin'] },
+    extensionId: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+const SUBJECT_DETAILS_KEYS: (keyof ISubjectDetails)[] = [
+  'name', 'iconUrl', 'subjectType', 'extensionId',
+];
+
+/*
+ * Picks the subject details from the given origin metadata, which may also
+ * carry e.g. the origin and a request id.
+ */
+export function getSubjectDetails (metadata: ISubjectDetails): ISubjectDetails {
+  const details: ISubjectDetails = {};
+  const pick = <K extends keyof ISubjectDetails>(key: K): void => {
+    if (metadata[key] !== undefined) {
+      details[key] = metadata[key];
+    }
+  };
+  SUBJECT_DETAILS_KEYS.forEach(pick);
+  return details;
+}
+
+/*
+ * Returns whether the given subject metadata already has all of the given
+ * details.
+ */
+export function includesSubjectDetails (
+  metadata: ISubjectDetails,
+  details: ISubjectDetails
+): boolean {
+  return SUBJECT_DETAILS_KEYS.every(
+    key => details[key] === undefined || details[key] === metadata[key]
+  );
+}
+
+/*
+ * Returns whether the given grantee is an origin pattern, i.e. an origin
+ * with wildcards, like `https://*.example.com`.
+ */
+export function isOriginPattern (grantee: string): boolean {
+  return !grantee.startsWith(SUBJECT_GROUP_PREFIX) && grantee.includes('*');
+}
+
+/*
+ * Returns whether the given origin matches the given origin pattern.
+ * Wildcards match one or more characters, but neither `/` nor `:`, so they
+ * cannot span a scheme or port, e.g. `https://*.example.com` matches
+ * `https://a.example.com` and `https://a.b.example.com`, but neither
+ * `https://example.com` nor `http://a.example.com`.
+ */
+export function originMatchesPattern (origin: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&'))
+    .join('[^/:]+');
+  return new RegExp(`^${source}$`, 'u').test(origin);
+}
+
+/*
+ * Returns the grantees among the given ones whose permissions apply to the
+ * given origin, in order of precedence:
+ *
+ * 1. The origin itself.
+ * 2. The groups containing the origin, ordered by name.
+ * 3. The origin patterns matching the origin, longest first, as longer
+ *    patterns are more specific.
+ */
+export function getGranteesFor (
+  origin: string,
+  grantees: string[],
+  subjectGroups: { [groupName: string]: string[] }
+): string[] {
+  const groups = Object.keys(subjectGroups)
+    .filter(groupName => subjectGroups[groupName].includes(origin))
+    .sort()
+    .map(groupName => `${SUBJECT_GROUP_PREFIX}${groupName}`)
+    .filter(grantee => grantees.includes(grantee));
+
+  const patterns = grantees
+    .filter(grantee => grantee !== origin && isOriginPattern(grantee))
+    .filter(pattern => originMatchesPattern(origin, pattern))
+    .sort((a, b) => b.length - a.length || (a < b ? -1 : 1));
+
+  return [
+    ...grantees.includes(origin) ? [origin] : [],
+    ...groups.filter(grantee => grantee !== origin),
+    ...patterns,
+  ];
+}
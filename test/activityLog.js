@@ -0,0 +1,149 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (activityLog, requestUserApproval) {
+  return new CapabilitiesController({
+    requestUserApproval: requestUserApproval ||
+      ((reqPerms) => Promise.resolve(reqPerms.permissions)),
+    restrictedMethods: {
+      'write': {
+        description: 'Writes the params',
+        method: (req, res, _next, end) => {
+          res.result = req.params;
+          end();
+        }
+      },
+      'fail': {
+        description: 'Always fails',
+        method: (_req, res, _next, end) => {
+          res.error = new Error('Failed');
+          end(res.error);
+        }
+      },
+    },
+    activityLog,
+  })
+}
+
+async function grant (ctrl, permissions) {
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+async function call (ctrl, method, params) {
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method, params });
+  } catch (_err) {
+    // failures are recorded in the log
+  }
+}
+
+function summarize (entries) {
+  return entries.map(e => `${e.type}:${e.method}:${e.outcome}`);
+}
+
+test('activity log is disabled by default', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, { write: {} });
+  await call(ctrl, 'write', ['a']);
+
+  t.deepEqual(ctrl.getActivityLog(), [], 'nothing recorded');
+  t.end();
+})
+
+test('activity log records permission lifecycle and invocations', async (t) => {
+  const ctrl = createController({});
+  await grant(ctrl, { write: {}, fail: {} });
+  const { id } = ctrl.getPermission(domain.origin, 'write');
+
+  await call(ctrl, 'write', ['a']);
+  await call(ctrl, 'fail');
+  ctrl.addCaveatFor(domain.origin, 'write', { type: 'forceParams', value: ['b'], name: 'force' });
+  ctrl.updateCaveatFor(domain.origin, 'write', 'force', ['c']);
+  ctrl.removePermissionsFor(domain.origin, [{ parentCapability: 'write' }]);
+
+  const log = ctrl.getActivityLog();
+  t.deepEqual(summarize(log), [
+    'grant:write:success',
+    'grant:fail:success',
+    'invocation:write:success',
+    'invocation:fail:failure',
+    'caveatAdded:write:success',
+    'caveatUpdated:write:success',
+    'revoke:write:success',
+  ], 'records expected entries');
+  t.equal(log[2].capabilityId, id, 'records the capability id');
+  t.equal(log[2].origin, domain.origin, 'records the origin');
+  t.ok(typeof log[2].timestamp === 'number', 'records the timestamp');
+  t.notOk('params' in log[2], 'does not record params by default');
+  t.end();
+})
+
+test('activity log records cascaded revocations', async (t) => {
+  const ctrl = createController({});
+  await grant(ctrl, { write: {} });
+  ctrl.delegatePermissions(domain.origin, 'other.com', { write: {} });
+  ctrl.removePermissionsFor(domain.origin, [{ parentCapability: 'write' }]);
+
+  const revocations = ctrl.getActivityLog()
+    .filter(e => e.type === 'revoke')
+    .map(e => `${e.origin}:${e.method}`);
+  t.deepEqual(revocations, [
+    `${domain.origin}:write`,
+    'other.com:write',
+  ], 'records revocation of delegated permission');
+  t.end();
+})
+
+test('activity log records rejected permissions requests', async (t) => {
+  const ctrl = createController({}, () => Promise.resolve({}));
+  try {
+    await grant(ctrl, { write: {}, fail: {} });
+  } catch (_err) {
+    // rejected by the user
+  }
+
+  t.deepEqual(summarize(ctrl.getActivityLog()), [
+    'requestRejected:write:failure',
+    'requestRejected:fail:failure',
+  ], 'records each requested method');
+  t.end();
+})
+
+test('activity log can be queried and cleared', async (t) => {
+  const ctrl = createController({});
+  await grant(ctrl, { write: {} });
+  const afterGrant = Date.now();
+  ctrl.delegatePermissions(domain.origin, 'other.com', { write: {} });
+
+  t.deepEqual(
+    ctrl.getActivityLog({ origin: 'other.com' }).map(e => e.type),
+    ['grant'],
+    'filters by origin'
+  );
+  t.equal(ctrl.getActivityLog({ method: 'write' }).length, 2, 'filters by method');
+  t.equal(ctrl.getActivityLog({ method: 'fail' }).length, 0, 'filters out other methods');
+  t.equal(ctrl.getActivityLog({ to: afterGrant - 1000 }).length, 0, 'filters by time range');
+  t.equal(ctrl.getActivityLog({ from: afterGrant - 1000 }).length, 2, 'includes entries in time range');
+
+  ctrl.clearActivityLog();
+  t.deepEqual(ctrl.getActivityLog(), [], 'log cleared');
+  t.end();
+})
+
+test('activity log is bounded and may include params', async (t) => {
+  const ctrl = createController({ maxEntries: 2, includeParams: true });
+  await grant(ctrl, { write: {} });
+  await call(ctrl, 'write', ['a']);
+  await call(ctrl, 'write', ['b']);
+
+  const log = ctrl.getActivityLog();
+  t.equal(log.length, 2, 'keeps the maximum number of entries');
+  t.deepEqual(log.map(e => e.params), [['a'], ['b']], 'keeps the newest entries with params');
+  t.end();
+})
@@ -0,0 +1,124 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const USER_REJECTED_CODE = rpcErrors.ERROR_CODES.provider.userRejectedRequest
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (approvalTimeout) {
+  return new CapabilitiesController({
+    // leaves requests pending, to be settled by id
+    requestUserApproval: () => Promise.resolve(),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+    approvalTimeout,
+  })
+}
+
+function requestPermissions (ctrl, origin = domain.origin) {
+  return sendRpcMethodWithResponse(ctrl, { origin }, {
+    method: 'requestPermissions',
+    params: [{ read: {} }],
+  });
+}
+
+function getPendingId (ctrl, origin = domain.origin) {
+  return ctrl.getPermissionsRequests().find(r => r.origin === origin).metadata.id;
+}
+
+async function expectRejection (t, request, message) {
+  try {
+    await request;
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, USER_REJECTED_CODE, message);
+  }
+}
+
+test('pending permissions requests can be approved by id', async (t) => {
+  const ctrl = createController();
+  const request = requestPermissions(ctrl);
+  await Promise.resolve();
+
+  ctrl.approvePermissionsRequest(getPendingId(ctrl), { read: {} });
+
+  try {
+    const { permissions } = await request;
+    t.equal(permissions[0].parentCapability, 'read', 'permission granted');
+    t.deepEqual(ctrl.getPermissionsRequests(), [], 'request removed from state');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('pending permissions requests can be rejected by id', async (t) => {
+  const ctrl = createController();
+  const request = requestPermissions(ctrl);
+  await Promise.resolve();
+
+  ctrl.rejectPermissionsRequest(getPendingId(ctrl), 'Not now.');
+
+  try {
+    await request;
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, USER_REJECTED_CODE, 'user rejected request error');
+    t.equal(err.message, 'Not now.', 'uses the given reason');
+  }
+  t.deepEqual(ctrl.getPermissionsRequests(), [], 'request removed from state');
+  t.throws(
+    () => ctrl.approvePermissionsRequest('unknown', { read: {} }),
+    /No pending permissions request/,
+    'throws for unknown requests'
+  );
+  t.end();
+})
+
+test('pending permissions requests are rejected after the timeout', async (t) => {
+  const ctrl = createController(20);
+  await expectRejection(t, requestPermissions(ctrl), 'rejected after timeout');
+  t.deepEqual(ctrl.getPermissionsRequests(), [], 'request removed from state');
+  t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 0, 'nothing granted');
+  t.end();
+})
+
+test('pending permissions requests can have timeouts of their own', async (t) => {
+  const origins = [];
+  const ctrl = createController((permissionsRequest) => {
+    origins.push(permissionsRequest.origin);
+    return permissionsRequest.origin === domain.origin ? 20 : undefined;
+  });
+  const otherRequest = requestPermissions(ctrl, 'other.com');
+  await expectRejection(t, requestPermissions(ctrl), 'rejected after its timeout');
+
+  t.deepEqual(origins, ['other.com', domain.origin], 'timeout computed for each request');
+  t.equal(ctrl.getPermissionsRequests().length, 1, 'request without timeout still pending');
+  ctrl.approvePermissionsRequest(getPendingId(ctrl, 'other.com'), { read: {} });
+  t.ok(await otherRequest, 'request without timeout can be approved');
+  t.end();
+})
+
+test('pending permissions requests of an origin can be rejected', async (t) => {
+  const ctrl = createController();
+  const request = requestPermissions(ctrl);
+  const otherRequest = requestPermissions(ctrl, 'other.com');
+  await Promise.resolve();
+
+  ctrl.rejectPermissionsRequestsFor(domain.origin);
+  await expectRejection(t, request, 'request of origin rejected');
+
+  t.equal(ctrl.getPermissionsRequests().length, 1, 'other request still pending');
+  ctrl.approvePermissionsRequest(getPendingId(ctrl, 'other.com'), { read: {} });
+  t.ok(await otherRequest, 'other request can be approved');
+  t.end();
+})
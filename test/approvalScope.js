@@ -0,0 +1,150 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INTERNAL_ERROR_CODE = rpcErrors.ERROR_CODES.rpc.internal
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (approve) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(approve(reqPerms.permissions)),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = ['a', 'b'];
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+  })
+}
+
+function requestPermissions (ctrl, permissions) {
+  return sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+async function expectApprovalError (t, ctrl, permissions, pattern, message) {
+  try {
+    await requestPermissions(ctrl, permissions);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INTERNAL_ERROR_CODE, 'internal error');
+    t.ok(pattern.test(err.message), message);
+    t.deepEqual(ctrl.getPermissionsForDomain(domain.origin), [], 'nothing granted');
+  }
+}
+
+test('approval may grant a subset of the request and reports the diff', async (t) => {
+  const ctrl = createController(() => ({ read: {} }));
+  const events = [];
+  ctrl.on('permissionsApproved', event => events.push(event));
+
+  try {
+    const result = await requestPermissions(ctrl, { read: {}, write: {} });
+    t.deepEqual(result.permissions.map(p => p.parentCapability), ['read'], 'grants approved methods');
+    t.deepEqual([result.granted, result.denied], [['read'], ['write']], 'reports the diff in the result');
+    t.equal(events.length, 1, 'emits an event');
+    t.equal(events[0].origin, domain.origin, 'with the origin');
+    t.deepEqual([events[0].granted, events[0].denied], [['read'], ['write']], 'reports the diff');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('approval changing the request in place may not exceed it', async (t) => {
+  const ctrl = createController((permissions) => {
+    permissions.write = {};
+    delete permissions.read.caveats;
+    return permissions;
+  });
+  await expectApprovalError(
+    t, ctrl, { read: { caveats: [{ type: 'filterResponse', value: ['a'] }] } },
+    /removes or loosens caveat 'filterResponse'/, 'checks the original request'
+  );
+  t.end();
+})
+
+test('approval may not grant methods that were not requested', async (t) => {
+  const ctrl = createController(() => ({ read: {}, write: {} }));
+  await expectApprovalError(t, ctrl, { read: {} }, /'write' was not requested/, 'names the method');
+  t.end();
+})
+
+test('approval may add or tighten caveats', async (t) => {
+  const ctrl = createController(() => ({
+    read: {
+      caveats: [
+        { type: 'filterResponse', value: ['a'], name: 'filter' },
+        { type: 'quota', value: { limit: 1 } },
+      ],
+    },
+  }));
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'filterResponse', value: ['a', 'b'], name: 'filter' }] },
+    });
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'read' });
+    t.deepEqual(result, ['a'], 'tightened caveat applied');
+    t.equal(ctrl.getCaveats(domain.origin, 'read').length, 2, 'added caveat kept');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('approval may not remove or loosen requested caveats', async (t) => {
+  const requested = {
+    read: { caveats: [{ type: 'quota', value: { limit: 2 }, name: 'max' }] },
+  };
+
+  await expectApprovalError(
+    t, createController(() => ({ read: {} })), requested,
+    /loosens caveat 'max'/, 'rejects removed caveat'
+  );
+  await expectApprovalError(
+    t, createController(() => ({
+      read: { caveats: [{ type: 'quota', value: { limit: 3 }, name: 'max' }] },
+    })), requested,
+    /loosens caveat 'max'/, 'rejects loosened caveat'
+  );
+  await expectApprovalError(
+    t, createController(() => ({
+      read: { caveats: [{ type: 'forceParams', value: ['b'] }] },
+    })), { read: { caveats: [{ type: 'forceParams', value: ['a'] }] } },
+    /loosens caveat 'forceParams'/, 'rejects changed caveat without comparator'
+  );
+  t.end();
+})
+
+test('approval may not extend the requested expiration time', async (t) => {
+  const expires = Date.now() + 60000;
+
+  await expectApprovalError(
+    t, createController(() => ({ read: {} })), { read: { expires } },
+    /expiration time for method 'read'/, 'rejects removed expiration time'
+  );
+  await expectApprovalError(
+    t, createController(() => ({ read: { expires: expires + 1 } })), { read: { expires } },
+    /expiration time for method 'read'/, 'rejects extended expiration time'
+  );
+
+  const ctrl = createController(() => ({ read: { expires: expires - 1 } }));
+  await requestPermissions(ctrl, { read: { expires } });
+  t.equal(ctrl.getPermission(domain.origin, 'read').expires, expires - 1, 'accepts earlier expiration time');
+  t.end();
+})
@@ -0,0 +1,61 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const domain = { origin: 'www.metamask.io' };
+
+function noop (_req, res, _next, end) {
+  res.result = true;
+  end();
+}
+
+function createController () {
+  return new CapabilitiesController({
+    methodPrefix: 'wallet_',
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    semanticCaveatTypes: {
+      onlyRead: { generator: () => noop, methods: ['read'] },
+    },
+    restrictedMethods: {
+      'read': { description: 'Reads things', method: noop },
+      'files_': { description: 'Accesses files', method: noop },
+      'plugin_*': {
+        description: 'Calls plugins',
+        method: noop,
+        dependencies: { required: ['read'] },
+      },
+    },
+  })
+}
+
+test('getAvailablePermissions describes every restricted method key', async (t) => {
+  const ctrl = createController();
+  const available = await sendRpcMethodWithResponse(ctrl, domain, { method: 'wallet_getAvailablePermissions' });
+
+  t.deepEqual(available.map(p => p.key), ['read', 'files_', 'plugin_*'], 'lists keys in order');
+  t.deepEqual(available.map(p => p.type), ['method', 'namespace', 'wildcard'], 'describes key types');
+  t.equal(available[0].description, 'Reads things', 'includes descriptions');
+  t.ok(available[0].caveatTypes.includes('onlyRead'), 'includes caveat types restricted to the key');
+  t.notOk(available[1].caveatTypes.includes('onlyRead'), 'excludes caveat types restricted to other keys');
+  t.ok(available[1].caveatTypes.includes('filterResponse'), 'includes unrestricted caveat types');
+  t.deepEqual(available[2].dependencies, { required: ['read'], optional: [] }, 'includes dependencies');
+  t.deepEqual(available.map(p => p.held), [false, false, false], 'nothing held yet');
+  t.end();
+})
+
+test('getAvailablePermissions reports held permissions', async (t) => {
+  const ctrl = createController();
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'wallet_requestPermissions',
+    params: [{ 'files_readme': {} }],
+  });
+
+  const available = ctrl.getAvailablePermissions(domain.origin);
+  t.deepEqual(available.map(p => p.held), [false, true, false], 'namespace held through one of its methods');
+  t.deepEqual(
+    ctrl.getAvailablePermissions('other.com').map(p => p.held),
+    [false, false, false],
+    'held per domain'
+  );
+  t.end();
+})
@@ -0,0 +1,133 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const JsonRpcEngine = require('json-rpc-engine');
+const rpcErrors = require('eth-json-rpc-errors')
+
+const UNAUTHORIZED_CODE = 4100
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+const METHOD_NOT_FOUND_CODE = rpcErrors.ERROR_CODES.rpc.methodNotFound
+const INTERNAL_ERROR_CODE = rpcErrors.ERROR_CODES.rpc.internal
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (withEngine = true) {
+  const parentEngine = new JsonRpcEngine();
+  parentEngine.push((_req, res, _next, end) => {
+    res.result = 'Safe';
+    end();
+  });
+
+  return new CapabilitiesController({
+    engine: withEngine ? parentEngine : undefined,
+    safeMethods: ['safe'],
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (req, res, _next, end) => {
+          res.result = req.params || 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+  })
+}
+
+async function grantRead (ctrl) {
+  await new Promise((resolve, reject) => {
+    const res = {};
+    ctrl.grantNewPermissions(domain.origin, {
+      read: { caveats: [{ type: 'forceParams', value: ['forced'] }] },
+    }, res, err => (err ? reject(err) : resolve()));
+  });
+}
+
+function handleBatch (ctrl, batch) {
+  return new Promise((resolve, reject) => {
+    const res = { id: undefined, jsonrpc: '2.0' };
+    ctrl.providerMiddlewareFunction(domain, batch, res, () => reject(new Error('next called')), (err) => {
+      return err ? reject(err) : resolve(res.result);
+    });
+  });
+}
+
+test('batch items are authorized independently', async (t) => {
+  const ctrl = createController();
+  await grantRead(ctrl);
+
+  const responses = await handleBatch(ctrl, [
+    { id: 1, jsonrpc: '2.0', method: 'read' },
+    { id: 2, jsonrpc: '2.0', method: 'write' },
+    { id: 3, jsonrpc: '2.0', method: 'safe' },
+    { id: 4, jsonrpc: '2.0', method: 'getPermissions' },
+    { id: 5, jsonrpc: '2.0', method: 'unknown' },
+  ]);
+
+  t.equal(responses.length, 5, 'one response per item');
+  t.deepEqual(responses.map(r => r.id), [1, 2, 3, 4, 5], 'responses in order');
+  t.deepEqual(responses[0].result, ['forced'], 'permitted item succeeds, with its caveats applied');
+  t.equal(responses[1].error.code, UNAUTHORIZED_CODE, 'unauthorized item fails');
+  t.notOk('result' in responses[1], 'unauthorized item has no result');
+  t.equal(responses[2].result, 'Safe', 'safe item is passed to the engine');
+  t.equal(responses[3].result.length, 1, 'internal item is handled');
+  t.equal(responses[4].error.code, METHOD_NOT_FOUND_CODE, 'unknown item fails');
+  t.end();
+})
+
+test('malformed batch items get their own errors', async (t) => {
+  const ctrl = createController();
+  await grantRead(ctrl);
+
+  const responses = await handleBatch(ctrl, [null, { id: 1, jsonrpc: '2.0', method: 'read' }]);
+  t.equal(responses[0].error.code, INVALID_REQUEST_CODE, 'malformed item rejected');
+  t.deepEqual(responses[1].result, ['forced'], 'other items unaffected');
+  t.end();
+})
+
+test('safe batch items fail clearly without an engine', async (t) => {
+  const ctrl = createController(false);
+  await grantRead(ctrl);
+
+  const responses = await handleBatch(ctrl, [
+    { id: 1, jsonrpc: '2.0', method: 'safe' },
+    { id: 2, jsonrpc: '2.0', method: 'read' },
+  ]);
+  t.equal(responses[0].error.code, INTERNAL_ERROR_CODE, 'safe item fails');
+  t.ok(/without an engine/u.test(responses[0].error.message), 'explains why');
+  t.deepEqual(responses[1].result, ['forced'], 'other items unaffected');
+  t.end();
+})
+
+test('empty batches are rejected', async (t) => {
+  const ctrl = createController();
+  try {
+    await handleBatch(ctrl, []);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+  }
+  t.end();
+})
+
+test('batches sent to permissioned engines are authorized per item', async (t) => {
+  const ctrl = createController();
+  await grantRead(ctrl);
+  const engine = ctrl.createPermissionedEngine(domain.origin);
+
+  const responses = await new Promise((resolve, reject) => {
+    engine.handle([
+      { id: 1, jsonrpc: '2.0', method: 'read' },
+      { id: 2, jsonrpc: '2.0', method: 'write' },
+    ], (err, res) => (err ? reject(err) : resolve(res)));
+  });
+  t.deepEqual(responses[0].result, ['forced'], 'permitted item succeeds');
+  t.equal(responses[1].error.code, UNAUTHORIZED_CODE, 'unauthorized item fails');
+  t.end();
+})
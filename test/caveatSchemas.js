@@ -0,0 +1,144 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const { validateSchema } = require('../dist/src/schema');
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+const domain = { origin: 'www.metamask.io' };
+
+const limitSchema = {
+  type: 'object',
+  required: ['limit'],
+  properties: {
+    limit: { type: 'integer', minimum: 1 },
+  },
+  additionalProperties: false,
+}
+
+function createController () {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = ['a'];
+          end();
+        }
+      },
+    },
+    semanticCaveatTypes: {
+      limit: {
+        generator: () => (_req, _res, next) => next(),
+        valueSchema: limitSchema,
+      },
+    },
+  })
+}
+
+function requestPermissions (ctrl, permissions) {
+  return sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+test('validateSchema reports the path of invalid values', async (t) => {
+  t.equal(validateSchema({ limit: 2 }, limitSchema), undefined, 'valid value');
+  t.deepEqual(
+    validateSchema({}, limitSchema),
+    { path: 'value.limit', message: 'is required' },
+    'missing property'
+  );
+  t.deepEqual(
+    validateSchema({ limit: 1.5 }, limitSchema),
+    { path: 'value.limit', message: 'must be of type integer' },
+    'wrong type'
+  );
+  t.deepEqual(
+    validateSchema({ limit: 1, other: true }, limitSchema),
+    { path: 'value.other', message: 'is not allowed' },
+    'additional property'
+  );
+  t.deepEqual(
+    validateSchema(['a', 1], { type: 'array', items: { type: 'string' } }),
+    { path: 'value[1]', message: 'must be of type string' },
+    'array item'
+  );
+  t.end();
+})
+
+test('built-in caveats with invalid values are rejected when granted', async (t) => {
+  const ctrl = createController();
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'requireParams', value: 1 }] },
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(err.message.indexOf('requireParams') !== -1, 'names the caveat');
+    t.ok(err.message.indexOf('value') !== -1, 'names the field');
+  }
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'filterResponse', value: { a: 1 }, name: 'filter' }] },
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(err.message.indexOf('filter') !== -1, 'names the caveat');
+  }
+
+  t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 0, 'nothing granted');
+  t.end();
+})
+
+test('custom caveats with invalid values are rejected when granted', async (t) => {
+  const ctrl = createController();
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'limit', value: { limit: 0 } }] },
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(err.message.indexOf('value.limit') !== -1, 'names the field');
+    t.equal(err.data.path, 'value.limit', 'includes the path');
+  }
+  t.end();
+})
+
+test('addCaveatFor and updateCaveatFor reject invalid values', async (t) => {
+  const ctrl = createController();
+  await requestPermissions(ctrl, {
+    read: { caveats: [{ type: 'limit', value: { limit: 2 }, name: 'max' }] },
+  });
+
+  try {
+    ctrl.addCaveatFor(domain.origin, 'read', { type: 'forceParams', value: 'a' });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'addCaveatFor throws invalid request error');
+  }
+
+  try {
+    ctrl.updateCaveatFor(domain.origin, 'read', 'max', { limit: 'many' });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'updateCaveatFor throws invalid request error');
+    t.ok(err.message.indexOf('\'max\'') !== -1, 'names the caveat');
+  }
+
+  t.deepEqual(
+    ctrl.getCaveats(domain.origin, 'read'),
+    [{ type: 'limit', value: { limit: 2 }, name: 'max' }],
+    'caveats unchanged'
+  );
+  t.end();
+})
@@ -0,0 +1,156 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INTERNAL_ERROR_CODE = rpcErrors.ERROR_CODES.rpc.internal
+
+const domain = { origin: 'www.metamask.io' };
+
+// Appends the caveat value to array results.
+const appendResult = (serialized) => (_req, res, next) => {
+  next((done) => {
+    res.result = [ ...res.result, serialized.value ];
+    done();
+  });
+}
+
+function createController (semanticCaveatTypes) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = ['a'];
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = ['written'];
+          end();
+        }
+      },
+    },
+    semanticCaveatTypes,
+  })
+}
+
+function requestPermissions (ctrl, permissions) {
+  return sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+test('caveat types can be registered through the constructor', async (t) => {
+  const ctrl = createController({
+    appendResult: { generator: appendResult },
+  });
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'appendResult', value: 'b' }] },
+    });
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'read' });
+    t.deepEqual(result, ['a', 'b'], 'custom caveat applied');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('caveat types can be registered at runtime', async (t) => {
+  const ctrl = createController();
+
+  try {
+    await requestPermissions(ctrl, { read: {} });
+
+    ctrl.registerCaveatType('appendResult', { generator: appendResult });
+    ctrl.addCaveatFor(domain.origin, 'read', { type: 'appendResult', value: 'c' });
+
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'read' });
+    t.deepEqual(result, ['a', 'c'], 'custom caveat applied');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+
+  t.throws(
+    () => ctrl.registerCaveatType('broken', {}),
+    /requires a generator function/,
+    'rejects caveat types without generator'
+  );
+  t.end();
+})
+
+test('caveats of unregistered types are rejected', async (t) => {
+  const ctrl = createController();
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'appendResult', value: 'b' }] },
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.ok(err.message.indexOf('Invalid caveats.') !== -1, 'throws expected error');
+    t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 0, 'nothing granted');
+  }
+  t.end();
+})
+
+test('caveat types can be restricted to methods', async (t) => {
+  const ctrl = createController({
+    appendResult: { generator: appendResult, methods: ['read'] },
+  });
+
+  try {
+    await requestPermissions(ctrl, {
+      write: { caveats: [{ type: 'appendResult', value: 'b' }] },
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.ok(err.message.indexOf('Invalid caveats.') !== -1, 'rejects caveat on other method');
+  }
+
+  try {
+    await requestPermissions(ctrl, {
+      read: { caveats: [{ type: 'appendResult', value: 'b' }] },
+      write: {},
+    });
+    t.ok(ctrl.getPermission(domain.origin, 'read'), 'accepts caveat on permitted method');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+
+  t.throws(
+    () => ctrl.addCaveatFor(domain.origin, 'write', { type: 'appendResult', value: 'b' }),
+    /Invalid caveat param/,
+    'addCaveatFor rejects caveat on other method'
+  );
+  t.end();
+})
+
+test('stored caveats of unregistered types fail closed', async (t) => {
+  const ctrl = createController();
+  ctrl.setDomains({
+    [domain.origin]: {
+      permissions: [{
+        parentCapability: 'read',
+        id: '1',
+        invoker: domain.origin,
+        caveats: [{ type: 'unknownType' }],
+      }],
+    },
+  });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'read' });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INTERNAL_ERROR_CODE, 'internal error');
+    t.ok(err.message.indexOf('unknownType') !== -1, 'names the caveat type');
+  }
+  t.end();
+})
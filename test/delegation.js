@@ -0,0 +1,199 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const UNAUTHORIZED_CODE = rpcErrors.ERROR_CODES.provider.unauthorized
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+const alice = { origin: 'alice.com' };
+const bob = { origin: 'bob.com' };
+const carol = { origin: 'carol.com' };
+
+async function createController () {
+  const ctrl = new CapabilitiesController({
+
+    // Auto fully approve:
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+
+    restrictedMethods: {
+      'write': {
+        description: 'Writes the params',
+        method: (req, res, _next, end) => {
+          res.result = req.params;
+          end();
+        }
+      },
+    },
+  })
+
+  await sendRpcMethodWithResponse(ctrl, alice, {
+    method: 'requestPermissions',
+    params: [{
+      write: {
+        caveats: [{ type: 'requireParams', value: ['foo'] }],
+      },
+    }],
+  });
+
+  return ctrl;
+}
+
+test('delegatePermissions creates a delegated permission', async (t) => {
+  try {
+    const ctrl = await createController();
+    const parent = ctrl.getPermission(alice.origin, 'write');
+
+    const result = await sendRpcMethodWithResponse(ctrl, alice, {
+      method: 'delegatePermissions',
+      params: [
+        bob.origin,
+        { write: { caveats: [{ type: 'requireParams', value: ['foo', 'bar'] }] } },
+      ],
+    });
+
+    t.equal(result.length, 1, 'returns the delegated permission');
+    t.equal(result[0].parentCapability, parent.id, 'points at the parent capability');
+    t.equal(result[0].invoker, bob.origin, 'delegatee is the invoker');
+
+    const perms = await sendRpcMethodWithResponse(ctrl, bob, { method: 'getPermissions' });
+    t.equal(perms.length, 1, 'delegatee has the permission');
+    t.equal(ctrl.getMethodForCapability(perms[0]), 'write', 'resolves to the root method');
+    t.deepEqual(ctrl.getCapabilityChain(perms[0]).map(c => c.id), [parent.id, perms[0].id], 'returns the chain');
+
+    const written = await sendRpcMethodWithResponse(ctrl, bob, { method: 'write', params: ['foo', 'bar'] });
+    t.deepEqual(written, ['foo', 'bar'], 'delegatee can call the method');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('delegated permissions are bound by the caveats of their parents', async (t) => {
+  const ctrl = await createController();
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, bob, { method: 'write', params: ['notFoo'] });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, UNAUTHORIZED_CODE, 'parent caveat enforced');
+  }
+  t.end();
+})
+
+test('delegated caveats cannot rewrite params checked by parent caveats', async (t) => {
+  const ctrl = await createController();
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, {
+    write: { caveats: [{ type: 'forceParams', value: ['notFoo'] }] },
+  });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, bob, { method: 'write', params: ['foo'] });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, UNAUTHORIZED_CODE, 'parent caveat checks the forced params');
+  }
+  t.end();
+})
+
+test('cannot delegate permissions that are not held', async (t) => {
+  const ctrl = await createController();
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, bob, {
+      method: 'delegatePermissions',
+      params: [carol.origin, { write: {} }],
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, UNAUTHORIZED_CODE, 'unauthorized error');
+    t.equal(ctrl.getPermissionsForDomain(carol.origin).length, 0, 'nothing delegated');
+  }
+  t.end();
+})
+
+test('cannot delegate permissions back to a delegator', async (t) => {
+  const ctrl = await createController();
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+
+  try {
+    ctrl.delegatePermissions(bob.origin, alice.origin, { write: {} });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(ctrl.getPermission(alice.origin, 'write'), 'delegator keeps its permission');
+  }
+  t.end();
+})
+
+test('cannot delegate permissions the delegatee already holds', async (t) => {
+  const ctrl = await createController();
+  await sendRpcMethodWithResponse(ctrl, bob, { method: 'requestPermissions', params: [{ write: {} }] });
+  const own = ctrl.getPermission(bob.origin, 'write');
+  ctrl.delegatePermissions(bob.origin, carol.origin, { write: {} });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, alice, {
+      method: 'delegatePermissions',
+      params: [bob.origin, { write: {} }],
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+  }
+  t.equal(ctrl.getPermission(bob.origin, 'write').id, own.id, 'own permission kept');
+  t.ok(ctrl.getPermission(carol.origin, 'write'), 'permissions delegated from it kept');
+  t.end();
+})
+
+test('revoking a permission revokes all permissions delegated from it', async (t) => {
+  const ctrl = await createController();
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+  ctrl.delegatePermissions(bob.origin, carol.origin, { write: {} });
+  t.ok(ctrl.getPermission(carol.origin, 'write'), 'transitively delegated');
+
+  ctrl.removePermissionsFor(bob.origin, [{ parentCapability: 'write' }]);
+  t.ok(ctrl.getPermission(alice.origin, 'write'), 'ancestor unaffected');
+  t.notOk(ctrl.getPermission(bob.origin, 'write'), 'delegated permission removed');
+  t.notOk(ctrl.getPermission(carol.origin, 'write'), 'descendant removed');
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+  ctrl.delegatePermissions(bob.origin, carol.origin, { write: {} });
+  ctrl.removePermissionsFor(alice.origin, [{ parentCapability: 'write' }]);
+  t.deepEqual(ctrl.getDomains(), {}, 'whole chain removed');
+  t.end();
+})
+
+test('overwriting a permission revokes permissions delegated from it', async (t) => {
+  const ctrl = await createController();
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+
+  await sendRpcMethodWithResponse(ctrl, alice, {
+    method: 'requestPermissions',
+    params: [{ write: {} }],
+  });
+
+  t.ok(ctrl.getPermission(alice.origin, 'write'), 'new permission granted');
+  t.notOk(ctrl.getPermission(bob.origin, 'write'), 'delegated permission revoked');
+  t.end();
+})
+
+test('permissions delegated from expired permissions are expired', async (t) => {
+  const ctrl = await createController();
+  const parent = ctrl.getPermission(alice.origin, 'write');
+
+  ctrl.delegatePermissions(alice.origin, bob.origin, { write: {} });
+  parent.expires = Date.now() - 1;
+
+  t.notOk(ctrl.getPermission(bob.origin, 'write'), 'delegated permission treated as absent');
+
+  const removed = ctrl.removeExpiredPermissions();
+  t.deepEqual(Object.keys(removed).sort(), [alice.origin, bob.origin], 'reports delegated permission');
+  t.deepEqual(ctrl.getDomains(), {}, 'removes delegated permission');
+  t.end();
+})
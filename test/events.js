@@ -0,0 +1,158 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const domain = { origin: 'www.metamask.io' };
+
+const EVENTS = [
+  'permissionsRequested',
+  'permissionsGranted',
+  'permissionsRevoked',
+  'caveatAdded',
+  'caveatUpdated',
+  'domainCleared',
+]
+
+function createController () {
+  const ctrl = new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes the params',
+        method: (req, res, _next, end) => {
+          res.result = req.params;
+          end();
+        }
+      },
+    },
+  })
+
+  const events = [];
+  EVENTS.forEach((event) => {
+    ctrl.on(event, payload => events.push({ event, payload }));
+  });
+  return { ctrl, events };
+}
+
+async function grant (ctrl, permissions) {
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+test('granting permissions emits request and grant events', async (t) => {
+  const { ctrl, events } = createController();
+  await grant(ctrl, { read: {}, write: {} });
+  const readId = ctrl.getPermission(domain.origin, 'read').id;
+  const writeId = ctrl.getPermission(domain.origin, 'write').id;
+
+  t.deepEqual(events.map(e => e.event), ['permissionsRequested', 'permissionsGranted'], 'emits events in order');
+  t.equal(events[0].payload.origin, domain.origin, 'request event has the origin');
+  t.deepEqual(events[0].payload.methods, ['read', 'write'], 'request event has the methods');
+  t.ok(events[0].payload.requestId, 'request event has the request id');
+  t.deepEqual(events[1].payload, {
+    origin: domain.origin,
+    permissions: [
+      { method: 'read', capabilityId: readId },
+      { method: 'write', capabilityId: writeId },
+    ],
+  }, 'grant event has the granted permissions');
+  t.end();
+})
+
+test('overwriting and revoking permissions emits revoke events', async (t) => {
+  const { ctrl, events } = createController();
+  await grant(ctrl, { read: {} });
+  const oldId = ctrl.getPermission(domain.origin, 'read').id;
+  ctrl.delegatePermissions(domain.origin, 'other.com', { read: {} });
+  const delegatedId = ctrl.getPermission('other.com', 'read').id;
+  events.length = 0;
+
+  await grant(ctrl, { read: {} });
+  const newId = ctrl.getPermission(domain.origin, 'read').id;
+  t.deepEqual(events.slice(1).map(e => e.payload), [
+    { origin: domain.origin, permissions: [{ method: 'read', capabilityId: oldId }] },
+    { origin: domain.origin, permissions: [{ method: 'read', capabilityId: newId }] },
+    { origin: 'other.com', permissions: [{ method: 'read', capabilityId: delegatedId }] },
+  ], 'emits overwrite, grant and cascaded revocation');
+  t.deepEqual(
+    events.slice(1).map(e => e.event),
+    ['permissionsRevoked', 'permissionsGranted', 'permissionsRevoked'],
+    'emits expected events'
+  );
+  events.length = 0;
+
+  ctrl.removePermissionsFor(domain.origin, [{ parentCapability: 'read' }]);
+  t.deepEqual(events, [{
+    event: 'permissionsRevoked',
+    payload: { origin: domain.origin, permissions: [{ method: 'read', capabilityId: newId }] },
+  }], 'emits revocation');
+  t.end();
+})
+
+test('caveat mutators emit caveat events', async (t) => {
+  const { ctrl, events } = createController();
+  await grant(ctrl, { write: {} });
+  const { id } = ctrl.getPermission(domain.origin, 'write');
+  events.length = 0;
+
+  ctrl.addCaveatFor(domain.origin, 'write', { type: 'forceParams', value: ['a'], name: 'force' });
+  ctrl.updateCaveatFor(domain.origin, 'write', 'force', ['b']);
+
+  t.deepEqual(events, [
+    {
+      event: 'caveatAdded',
+      payload: {
+        origin: domain.origin,
+        method: 'write',
+        capabilityId: id,
+        caveat: { type: 'forceParams', value: ['a'], name: 'force' },
+      },
+    },
+    {
+      event: 'caveatUpdated',
+      payload: {
+        origin: domain.origin,
+        method: 'write',
+        capabilityId: id,
+        caveat: { type: 'forceParams', value: ['b'], name: 'force' },
+      },
+    },
+  ], 'emits caveat events without grant events');
+  t.end();
+})
+
+test('clearing domains emits an event per domain', async (t) => {
+  const { ctrl, events } = createController();
+  await grant(ctrl, { read: {} });
+  ctrl.delegatePermissions(domain.origin, 'other.com', { read: {} });
+  events.length = 0;
+
+  ctrl.clearDomains();
+  t.deepEqual(events, [
+    { event: 'domainCleared', payload: { origin: domain.origin } },
+    { event: 'domainCleared', payload: { origin: 'other.com' } },
+  ], 'emits domain cleared events');
+  t.end();
+})
+
+test('listeners can be removed', async (t) => {
+  const { ctrl } = createController();
+  let calls = 0;
+  const listener = () => calls++;
+
+  ctrl.on('permissionsGranted', listener);
+  ctrl.off('permissionsGranted', listener);
+  await grant(ctrl, { read: {} });
+
+  t.equal(calls, 0, 'removed listener not called');
+  t.end();
+})
@@ -0,0 +1,150 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const UNAUTHORIZED_CODE = rpcErrors.ERROR_CODES.provider.unauthorized
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+function createController (approve) {
+  return new CapabilitiesController({
+    requestUserApproval: approve,
+    restrictedMethods: {
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Success';
+          end();
+        }
+      },
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+  })
+}
+
+test('expired permission is treated as absent', async (t) => {
+  const domain = { origin: 'www.metamask.io' };
+  const realNow = Date.now;
+  let now = realNow();
+  Date.now = () => now;
+
+  // User approves for a short time:
+  const ctrl = createController(async (permissionsRequest) => {
+    const perms = permissionsRequest.permissions;
+    perms.write.expires = now + 1000;
+    return perms;
+  })
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ write: {} }],
+    });
+
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'write' });
+    t.equal(result, 'Success', 'permitted before expiry');
+  } catch (err) {
+    t.notOk(err, 'should not throw before expiry');
+  }
+
+  now += 1000;
+
+  try {
+    t.equal(ctrl.getPermission(domain.origin, 'write'), undefined, 'getPermission returns nothing');
+    const perms = await sendRpcMethodWithResponse(ctrl, domain, { method: 'getPermissions' });
+    t.equal(perms.length, 0, 'getPermissions returns nothing');
+
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'write' });
+    t.notOk(true, 'should have thrown')
+  } catch (err) {
+    t.ok(err, 'should throw');
+    t.equal(err.code, UNAUTHORIZED_CODE, 'Auth error code.');
+  } finally {
+    Date.now = realNow;
+  }
+  t.end();
+})
+
+test('requested expiration date is stored on the permission', async (t) => {
+  const domain = { origin: 'www.metamask.io' };
+  const expires = Date.now() + 60000;
+
+  const ctrl = createController(async (permissionsRequest) => permissionsRequest.permissions)
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ write: { expires } }],
+    });
+
+    const perm = ctrl.getPermission(domain.origin, 'write');
+    t.equal(perm.expires, expires, 'expiration date stored');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('granting an already expired permission fails', async (t) => {
+  const domain = { origin: 'www.metamask.io' };
+
+  const ctrl = createController(async (permissionsRequest) => {
+    const perms = permissionsRequest.permissions;
+    perms.write.expires = Date.now() - 1;
+    return perms;
+  })
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ write: {} }],
+    });
+    t.notOk(true, 'should have thrown')
+  } catch (err) {
+    t.ok(err, 'should throw');
+    t.equal(err.code, INVALID_REQUEST_CODE, 'Invalid request error code.');
+    t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 0, 'no permissions granted');
+  }
+  t.end();
+})
+
+test('removeExpiredPermissions prunes and reports expired permissions', async (t) => {
+  const now = Date.now();
+  const ctrl = createController(async () => ({}))
+
+  ctrl.setDomains({
+    'a.com': {
+      permissions: [
+        { parentCapability: 'write', id: '1', invoker: 'a.com', expires: now - 10 },
+        { parentCapability: 'read', id: '2', invoker: 'a.com', expires: now + 60000 },
+      ],
+    },
+    'b.com': {
+      permissions: [
+        { parentCapability: 'write', id: '3', invoker: 'b.com', expires: now - 10 },
+      ],
+    },
+    'c.com': {
+      permissions: [
+        { parentCapability: 'read', id: '4', invoker: 'c.com' },
+      ],
+    },
+  })
+
+  const removed = ctrl.removeExpiredPermissions();
+
+  t.deepEqual(Object.keys(removed).sort(), ['a.com', 'b.com'], 'reports affected domains');
+  t.deepEqual(removed['a.com'].map(p => p.id), ['1'], 'reports removed permission');
+
+  const domains = ctrl.getDomains();
+  t.deepEqual(domains['a.com'].permissions.map(p => p.id), ['2'], 'unexpired permission remains');
+  t.notOk(domains['b.com'], 'domain without permissions is removed');
+  t.deepEqual(domains['c.com'].permissions.map(p => p.id), ['4'], 'other domains unaffected');
+  t.end();
+})
@@ -0,0 +1,125 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const UNAUTHORIZED_CODE = 4100
+const LIMIT_EXCEEDED_CODE = -32005
+const METHOD_NOT_FOUND_CODE = rpcErrors.ERROR_CODES.rpc.methodNotFound
+
+const origin = 'www.metamask.io';
+
+function createController () {
+  let calls = 0;
+  const ctrl = new CapabilitiesController({
+    safeMethods: ['eth_blockNumber'],
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'send': {
+        description: 'Sends things',
+        method: (req, res, _next, end) => {
+          calls += 1;
+          res.result = req.params;
+          end();
+        }
+      },
+      'files_': {
+        description: 'Accesses files',
+        method: (_req, res, _next, end) => {
+          calls += 1;
+          res.result = 'File';
+          end();
+        }
+      },
+    },
+  })
+  return { ctrl, getCalls: () => calls };
+}
+
+function grant (ctrl, grantee, approved) {
+  return new Promise((resolve, reject) => {
+    ctrl.grantNewPermissions(grantee, approved, {}, err => (err ? reject(err) : resolve()));
+  });
+}
+
+test('explain reports methods handled before authorization', async (t) => {
+  const { ctrl } = createController();
+
+  const safe = await ctrl.explain(origin, { method: 'eth_blockNumber' });
+  t.equal(safe.decision, 'safe', 'safe method');
+  t.ok(safe.allowed, 'is allowed');
+
+  const internal = await ctrl.explain(origin, { method: 'getPermissions' });
+  t.equal(internal.decision, 'internal', 'internal method');
+
+  const unknown = await ctrl.explain(origin, { method: 'file_read' });
+  t.equal(unknown.decision, 'methodNotFound', 'namespace mismatch');
+  t.notOk(unknown.allowed, 'is not allowed');
+  t.equal(unknown.methodKey, undefined, 'no method key matched');
+  t.equal(unknown.error.code, METHOD_NOT_FOUND_CODE, 'with the error');
+  t.end();
+})
+
+test('explain reports missing permissions and the matched key', async (t) => {
+  const { ctrl } = createController();
+
+  const explanation = await ctrl.explain(origin, { method: 'files_read' });
+  t.equal(explanation.decision, 'unauthorized', 'unauthorized');
+  t.equal(explanation.methodKey, 'files_', 'matched namespace key');
+  t.equal(explanation.error.code, UNAUTHORIZED_CODE, 'with the error');
+
+  await grant(ctrl, 'https://*.io', { files_read: {} });
+  const patterned = await ctrl.explain('https://a.io', { method: 'files_read' });
+  t.equal(patterned.decision, 'allowed', 'allowed through a pattern');
+  t.equal(patterned.capability.invoker, 'https://*.io', 'reports the capability used');
+  t.end();
+})
+
+test('explain traces caveats without invoking the method', async (t) => {
+  const { ctrl, getCalls } = createController();
+  await grant(ctrl, origin, {
+    send: {
+      caveats: [
+        { type: 'quota', value: { limit: 1 } },
+        { type: 'forceParams', value: ['forced'], name: 'force' },
+        { type: 'filterResponse', value: ['forced'] },
+        { type: 'requireParams', value: ['other'] },
+        { type: 'requireParams', value: ['other'], name: 'never' },
+      ],
+    },
+  });
+  const { id } = ctrl.getPermission(origin, 'send');
+
+  const request = { method: 'send', params: ['original'] };
+  const explanation = await ctrl.explain(origin, request);
+  t.equal(explanation.decision, 'denied', 'denied by a caveat');
+  t.equal(explanation.capability.id, id, 'reports the capability used');
+  t.deepEqual(
+    explanation.caveats.map(c => c.outcome),
+    ['pass', 'transform', 'transform', 'fail', 'skipped'],
+    'traces each caveat'
+  );
+  t.equal(explanation.caveats[1].transformed, 'params', 'params transformation');
+  t.deepEqual(explanation.caveats[1].params, ['forced'], 'with the new params');
+  t.equal(explanation.caveats[2].transformed, 'response', 'response transformation');
+  t.equal(explanation.caveats[3].error.code, UNAUTHORIZED_CODE, 'failure with its error');
+  t.equal(explanation.caveats[0].capabilityId, id, 'caveats name their capability');
+  t.deepEqual(request.params, ['original'], 'request not modified');
+
+  t.equal(getCalls(), 0, 'method not invoked');
+  t.deepEqual(ctrl.getCaveatCounters(id), {}, 'counters not changed');
+  t.end();
+})
+
+test('explain reports exhausted counters', async (t) => {
+  const { ctrl } = createController();
+  await grant(ctrl, origin, { send: { caveats: [{ type: 'quota', value: { limit: 1 } }] } });
+  await new Promise((resolve) => {
+    ctrl.executeMethod({ origin }, { method: 'send', params: [] }, {}, () => resolve(), () => resolve());
+  });
+
+  const explanation = await ctrl.explain(origin, { method: 'send', params: [] });
+  t.equal(explanation.decision, 'denied', 'denied');
+  t.equal(explanation.caveats[0].outcome, 'fail', 'by the quota');
+  t.equal(explanation.error.code, LIMIT_EXCEEDED_CODE, 'with the error');
+  t.end();
+})
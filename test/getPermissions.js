@@ -6,15 +6,17 @@ function noop () {};
 
 const arbitraryCaps = [
   {
-    domain: 'bar',
-    method: 'restricted',
-    granter: 'baz',
+    '@context': ['https://github.com/MetaMask/rpc-cap'],
+    parentCapability: 'restricted',
+    invoker: 'login.metamask.io',
+    date: 1,
     id: 'abc',
   },
   {
-    domain: 'baz',
-    method: 'restricted2',
-    granter: 'bar',
+    '@context': ['https://github.com/MetaMask/rpc-cap'],
+    parentCapability: 'restricted2',
+    invoker: 'login.metamask.io',
+    date: 2,
     id: 'xyz',
   },
 ]
@@ -4,3 +4,28 @@ require('./requestPermissions')
 require('./caveats')
 require('./wildcardPermissions')
 require('./dependentPermissions')
+require('./expiration')
+require('./delegation')
+require('./signatures')
+require('./caveatTypes')
+require('./caveatSchemas')
+require('./limitCaveats')
+require('./activityLog')
+require('./revokePermissions')
+require('./approvalScope')
+require('./approvalApi')
+require('./requestQueue')
+require('./events')
+require('./migrations')
+require('./methodIndex')
+require('./paramPolicy')
+require('./shapeResponse')
+require('./permissionDependencies')
+require('./subjects')
+require('./subjectMetadata')
+require('./batchRequests')
+require('./permissionsChanged')
+require('./storage')
+require('./availablePermissions')
+require('./explain')
+require('./methodSchemas')
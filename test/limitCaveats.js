@@ -0,0 +1,112 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const LIMIT_EXCEEDED_CODE = -32005
+
+const domain = { origin: 'www.metamask.io' };
+
+function wait (ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function createController (state) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Success';
+          end();
+        }
+      },
+    },
+  }, state)
+}
+
+async function grantWithCaveats (caveats, state) {
+  const ctrl = createController(state);
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ write: { caveats } }],
+  });
+  return ctrl;
+}
+
+async function callIsLimited (ctrl) {
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'write' });
+    return false;
+  } catch (err) {
+    if (err.code !== LIMIT_EXCEEDED_CODE) {
+      throw err;
+    }
+    return true;
+  }
+}
+
+test('quota caveat limits the total number of calls', async (t) => {
+  const ctrl = await grantWithCaveats([{ type: 'quota', value: { limit: 2 } }]);
+  const { id } = ctrl.getPermission(domain.origin, 'write');
+
+  t.notOk(await callIsLimited(ctrl), 'first call succeeds');
+  t.notOk(await callIsLimited(ctrl), 'second call succeeds');
+  t.ok(await callIsLimited(ctrl), 'third call is rejected');
+  t.deepEqual(ctrl.getCaveatCounters(id), { quota: { count: 2 } }, 'counter is inspectable');
+
+  ctrl.resetCaveatCounters(id, 'quota');
+  t.deepEqual(ctrl.getCaveatCounters(id), {}, 'counter is reset');
+  t.notOk(await callIsLimited(ctrl), 'call succeeds after reset');
+  t.end();
+})
+
+test('quota caveat with a limit of 1 makes a single-use permission', async (t) => {
+  const ctrl = await grantWithCaveats([{ type: 'quota', value: { limit: 1 }, name: 'once' }]);
+  const { id } = ctrl.getPermission(domain.origin, 'write');
+
+  t.notOk(await callIsLimited(ctrl), 'first call succeeds');
+  t.ok(await callIsLimited(ctrl), 'second call is rejected');
+  t.deepEqual(ctrl.getCaveatCounters(id), { once: { count: 1 } }, 'counter keyed by caveat name');
+  t.end();
+})
+
+test('rateLimit caveat limits calls per period', async (t) => {
+  const ctrl = await grantWithCaveats([{ type: 'rateLimit', value: { limit: 1, period: 50 } }]);
+
+  t.notOk(await callIsLimited(ctrl), 'first call succeeds');
+  t.ok(await callIsLimited(ctrl), 'second call within period is rejected');
+
+  await wait(60);
+  t.notOk(await callIsLimited(ctrl), 'call in next period succeeds');
+  t.end();
+})
+
+test('caveat counters survive serialization', async (t) => {
+  const ctrl = await grantWithCaveats([{ type: 'quota', value: { limit: 1 } }]);
+  await callIsLimited(ctrl);
+
+  const restored = createController(JSON.parse(JSON.stringify(ctrl.serialize())));
+  t.ok(await callIsLimited(restored), 'restored quota is still exhausted');
+  t.end();
+})
+
+test('caveat counters are removed with their permission', async (t) => {
+  const ctrl = await grantWithCaveats([{ type: 'quota', value: { limit: 1 } }]);
+  const { id } = ctrl.getPermission(domain.origin, 'write');
+  await callIsLimited(ctrl);
+
+  ctrl.removePermissionsFor(domain.origin, [{ parentCapability: 'write' }]);
+  t.deepEqual(ctrl.getCaveatCounters(id), {}, 'counters removed');
+  t.end();
+})
+
+test('limit caveats with invalid values are rejected', async (t) => {
+  try {
+    await grantWithCaveats([{ type: 'rateLimit', value: { limit: 1 } }]);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.ok(err.message.indexOf('value.period') !== -1, 'names the missing field');
+  }
+  t.end();
+})
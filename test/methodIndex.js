@@ -0,0 +1,99 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const { createMethodIndex, getMethodKey } = require('../dist/src/methodIndex');
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+test('method keys resolve with documented precedence', async (t) => {
+  const index = createMethodIndex([
+    'eth_accounts',
+    'eth_',
+    'eth_*',
+    'wallet_plugin_',
+    'wallet_*',
+    'snap_*',
+  ]);
+
+  t.equal(getMethodKey(index, 'eth_accounts'), 'eth_accounts', 'exact name first');
+  t.equal(getMethodKey(index, 'eth_sign'), 'eth_', 'namespace before wildcard');
+  t.equal(getMethodKey(index, 'wallet_plugin_foo'), 'wallet_*', 'shortest prefix first');
+  t.equal(getMethodKey(index, 'snap_a_b'), 'snap_*', 'wildcard matches nested methods');
+  t.equal(getMethodKey(index, 'eth'), 'eth_', 'namespace matches its own name');
+  t.equal(getMethodKey(index, 'ethereum_sign'), '', 'prefixes end at separators');
+  t.equal(getMethodKey(index, 'unknown'), '', 'unknown methods are not resolved');
+  t.end();
+})
+
+test('method keys resolve with custom separators', async (t) => {
+  const index = createMethodIndex(['fs.', 'net.*', 'db/'], '.');
+
+  t.equal(getMethodKey(index, 'fs.read'), 'fs.', 'namespace with separator');
+  t.equal(getMethodKey(index, 'net.http.get'), 'net.*', 'wildcard with separator');
+  t.equal(getMethodKey(index, 'db/query'), '', 'other separators are not segments');
+  t.equal(getMethodKey(index, 'fs_read'), '', 'underscores are not segments');
+  t.end();
+})
+
+test('controller resolves namespaced methods with the configured separator', async (t) => {
+  const ctrl = new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    methodSeparator: '/',
+    restrictedMethods: {
+      'files/': {
+        description: 'Reads files',
+        method: (req, res, _next, end) => {
+          res.result = req.method.split('/')[1];
+          end();
+        }
+      },
+    },
+  })
+  const domain = { origin: 'www.metamask.io' };
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ 'files/readme': {} }],
+    });
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'files/readme' });
+    t.equal(result, 'readme', 'namespaced method called');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+function timeLookups (index, methods) {
+  const start = process.hrtime();
+  for (let i = 0; i < 20; i++) {
+    methods.forEach(method => getMethodKey(index, method));
+  }
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return seconds * 1e9 + nanoseconds;
+}
+
+test('method key lookup time does not grow with the number of keys', async (t) => {
+  const methods = [];
+  for (let i = 0; i < 1000; i++) {
+    methods.push(`ns${i}_method`, `wild${i}_a_b`, `exact${i}`, `unknown${i}_method`);
+  }
+
+  const createKeys = (count) => {
+    const keys = [];
+    for (let i = 0; i < count; i++) {
+      keys.push(`ns${i}_`, `wild${i}_*`, `exact${i}`);
+    }
+    return keys;
+  };
+  const smallIndex = createMethodIndex(createKeys(10));
+  const largeIndex = createMethodIndex(createKeys(5000));
+
+  // warm up
+  timeLookups(smallIndex, methods);
+  timeLookups(largeIndex, methods);
+
+  const smallTime = timeLookups(smallIndex, methods);
+  const largeTime = timeLookups(largeIndex, methods);
+  t.equal(getMethodKey(largeIndex, 'wild4999_a_b'), 'wild4999_*', 'resolves with many keys');
+  t.ok(largeTime < smallTime * 10, `lookups with 15000 keys take ${Math.round(largeTime / 1e6)}ms vs ${Math.round(smallTime / 1e6)}ms with 30 keys`);
+  t.end();
+})
@@ -0,0 +1,121 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_PARAMS_CODE = rpcErrors.ERROR_CODES.rpc.invalidParams
+const INTERNAL_ERROR_CODE = rpcErrors.ERROR_CODES.rpc.internal
+
+const domain = { origin: 'www.metamask.io' };
+
+const paramsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['to'],
+    properties: { to: { type: 'string', pattern: '^0x' } },
+  },
+};
+
+function createController (requestUserApproval) {
+  return new CapabilitiesController({
+    requestUserApproval: requestUserApproval || ((reqPerms) => Promise.resolve(reqPerms.permissions)),
+    restrictedMethods: {
+      'send': {
+        description: 'Sends things',
+        paramsSchema,
+        resultSchema: { type: 'string' },
+        method: (req, res, _next, end) => {
+          res.result = req.params[0].to === '0xbad' ? 42 : 'Sent';
+          end();
+        }
+      },
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+  })
+}
+
+async function grantSend (ctrl, caveats) {
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ send: { caveats } }],
+  });
+}
+
+test('params are validated against the params schema', async (t) => {
+  const ctrl = createController();
+  await grantSend(ctrl);
+
+  const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'send', params: [{ to: '0xabc' }] });
+  t.equal(result, 'Sent', 'valid params are accepted');
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'send', params: [{ to: 'abc' }] });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_PARAMS_CODE, 'invalid params error');
+    t.equal(err.data.path, 'params[0].to', 'names the failing field');
+    t.ok(err.message.indexOf(`'params[0].to'`) !== -1, 'in the message');
+  }
+  t.end();
+})
+
+test('params are validated before caveats run', async (t) => {
+  const ctrl = createController();
+  await grantSend(ctrl, [{ type: 'forceParams', value: [{ to: '0xabc' }] }]);
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'send', params: ['junk'] });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_PARAMS_CODE, 'rejected despite the forced params');
+  }
+
+  const explanation = await ctrl.explain(domain.origin, { method: 'send' });
+  t.equal(explanation.decision, 'invalidParams', 'explained as invalid params');
+  t.equal(explanation.caveats.length, 0, 'without running caveats');
+  t.end();
+})
+
+test('results are validated against the result schema', async (t) => {
+  const ctrl = createController();
+  await grantSend(ctrl);
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, { method: 'send', params: [{ to: '0xbad' }] });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INTERNAL_ERROR_CODE, 'internal error');
+    t.equal(err.data.path, 'result', 'names the failing field');
+  }
+  t.end();
+})
+
+test('schemas are surfaced in introspection and permissions requests', async (t) => {
+  let request;
+  const ctrl = createController((reqPerms) => {
+    request = reqPerms;
+    return Promise.resolve(reqPerms.permissions);
+  });
+
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ send: {}, read: {} }],
+  });
+  t.deepEqual(
+    request.schemas,
+    { send: { paramsSchema, resultSchema: { type: 'string' } } },
+    'request includes the schemas of requested methods'
+  );
+
+  const available = ctrl.getAvailablePermissions(domain.origin);
+  t.deepEqual(available[0].paramsSchema, paramsSchema, 'introspection includes the params schema');
+  t.notOk('paramsSchema' in available[1], 'omitted for methods without one');
+  t.end();
+})
@@ -0,0 +1,101 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const { STATE_VERSION } = require('../dist/src/migrations');
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (state) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+  }, state)
+}
+
+test('new state has the current version', async (t) => {
+  const ctrl = createController();
+  t.equal(ctrl.serialize().version, STATE_VERSION, 'has the current version');
+  t.end();
+})
+
+test('unversioned state is upgraded', async (t) => {
+  const initState = {
+    domains: {
+      [domain.origin]: {
+        permissions: [{ parentCapability: 'read' }],
+      },
+    },
+  };
+  const ctrl = createController(initState);
+  const perm = ctrl.getPermission(domain.origin, 'read');
+
+  t.equal(ctrl.serialize().version, STATE_VERSION, 'has the current version');
+  t.equal(typeof perm.id, 'string', 'adds an id');
+  t.equal(typeof perm.date, 'number', 'adds a date');
+  t.equal(perm.invoker, domain.origin, 'adds the invoker');
+  t.deepEqual(perm['@context'], ['https://github.com/MetaMask/rpc-cap'], 'adds the context');
+  t.deepEqual(initState.domains[domain.origin].permissions, [{ parentCapability: 'read' }], 'does not modify the given state');
+
+  try {
+    const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'read' });
+    t.equal(result, 'Read', 'upgraded permission can be used');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('corrupt domain entries are quarantined', async (t) => {
+  const ctrl = createController({
+    domains: {
+      [domain.origin]: {
+        permissions: [{ parentCapability: 'read', id: '1', invoker: domain.origin }],
+      },
+      'no-permissions.com': {},
+      'bad-caveats.com': {
+        permissions: [{ parentCapability: 'read', id: '2', invoker: 'bad-caveats.com', caveats: 'none' }],
+      },
+    },
+  });
+  const { quarantinedDomains } = ctrl.serialize();
+
+  t.deepEqual(Object.keys(ctrl.getDomains()), [domain.origin], 'keeps valid entries');
+  t.deepEqual(
+    Object.keys(quarantinedDomains),
+    ['no-permissions.com', 'bad-caveats.com'],
+    'quarantines corrupt entries'
+  );
+  t.deepEqual(quarantinedDomains['no-permissions.com'].entry, {}, 'keeps the corrupt entry');
+  t.ok(quarantinedDomains['bad-caveats.com'].reason, 'records the reason');
+  t.notOk(ctrl.getPermission('bad-caveats.com', 'read'), 'corrupt permission not available');
+  t.end();
+})
+
+test('state of a newer version is refused', async (t) => {
+  t.throws(
+    () => createController({ version: STATE_VERSION + 1, domains: {} }),
+    /Unsupported state version/,
+    'throws for newer versions'
+  );
+  t.end();
+})
+
+test('current state is loaded unchanged', async (t) => {
+  const ctrl = createController();
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ read: {} }],
+  });
+  const state = JSON.parse(JSON.stringify(ctrl.serialize()));
+
+  t.deepEqual(createController(state).getDomains(), state.domains, 'domains unchanged');
+  t.end();
+})
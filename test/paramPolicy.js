@@ -0,0 +1,131 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const { validateParamPolicy } = require('../dist/src/paramPolicy');
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+const UNAUTHORIZED_CODE = rpcErrors.ERROR_CODES.provider.unauthorized
+
+const domain = { origin: 'www.metamask.io' };
+const ONE_ETH = '1000000000000000000';
+
+// Transactions below 1 ETH, to allowed addresses or with a memo
+const policy = {
+  and: [
+    { name: 'belowOneEth', path: '[0].value', lt: ONE_ETH },
+    {
+      or: [
+        { path: '[0].to', in: ['0xabc', '0xdef'] },
+        { path: '1', matches: '^memo:' },
+      ],
+    },
+    { not: { path: '[0].data' } },
+  ],
+}
+
+function createController () {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'send': {
+        description: 'Sends transactions',
+        method: (_req, res, _next, end) => {
+          res.result = 'Sent';
+          end();
+        }
+      },
+    },
+  })
+}
+
+async function grantPolicy (ctrl, value) {
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ send: { caveats: [{ type: 'paramPolicy', value }] } }],
+  });
+}
+
+async function send (ctrl, params) {
+  try {
+    return await sendRpcMethodWithResponse(ctrl, domain, { method: 'send', params });
+  } catch (err) {
+    return err;
+  }
+}
+
+test('validateParamPolicy reports the path of invalid rules', async (t) => {
+  t.equal(validateParamPolicy(policy), undefined, 'valid policy');
+  t.deepEqual(
+    validateParamPolicy({ and: [] }),
+    { path: 'value.and', message: 'must be a non-empty array' },
+    'empty combination'
+  );
+  t.deepEqual(
+    validateParamPolicy({ or: [{ path: '0', lt: '1.5' }] }),
+    { path: 'value.or[0].lt', message: 'must be a number or an integer string' },
+    'invalid bound'
+  );
+  t.deepEqual(
+    validateParamPolicy({ not: { path: '0', matches: '(' } }),
+    { path: 'value.not.matches', message: 'must be a valid regular expression' },
+    'invalid regular expression'
+  );
+  t.deepEqual(
+    validateParamPolicy({ path: '0', below: 1 }),
+    { path: 'value.below', message: 'is not allowed' },
+    'unknown operator'
+  );
+  t.deepEqual(
+    validateParamPolicy({ path: '0', and: [] }),
+    { path: 'value', message: 'must have exactly one of and, or, not or path' },
+    'ambiguous rule'
+  );
+  t.end();
+})
+
+test('paramPolicy caveat permits params satisfying the policy', async (t) => {
+  const ctrl = createController();
+  await grantPolicy(ctrl, policy);
+
+  t.equal(await send(ctrl, [{ to: '0xabc', value: '0xde0b6b3a763ffff' }]), 'Sent', 'hex amount below bound');
+  t.equal(await send(ctrl, [{ to: '0x123', value: 1000 }, 'memo: rent']), 'Sent', 'alternative satisfied');
+  t.end();
+})
+
+test('paramPolicy caveat rejects params violating the policy', async (t) => {
+  const ctrl = createController();
+  await grantPolicy(ctrl, policy);
+
+  let err = await send(ctrl, [{ to: '0xabc', value: ONE_ETH }]);
+  t.equal(err.code, UNAUTHORIZED_CODE, 'unauthorized error');
+  t.equal(
+    err.message,
+    `Parameter policy rule 'belowOneEth' failed: '[0].value' must be less than ${ONE_ETH}.`,
+    'names the failed rule'
+  );
+
+  err = await send(ctrl, [{ to: '0x123', value: 1 }]);
+  t.ok(err.message.indexOf('\'value.and[1]\'') !== -1, 'names unnamed rules by location');
+
+  err = await send(ctrl, [{ to: '0xabc', value: 1, data: '0x00' }]);
+  t.ok(err.message.indexOf('\'value.and[2]\'') !== -1, 'applies negation');
+
+  err = await send(ctrl, [{ to: '0xabc', value: 'lots' }]);
+  t.equal(err.code, UNAUTHORIZED_CODE, 'rejects non-numeric amounts');
+  t.end();
+})
+
+test('paramPolicy caveat with an invalid policy is rejected when granted', async (t) => {
+  const ctrl = createController();
+
+  try {
+    await grantPolicy(ctrl, { path: '0', gt: 'many' });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(err.message.indexOf('value.gt') !== -1, 'names the invalid field');
+  }
+  t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 0, 'nothing granted');
+  t.end();
+})
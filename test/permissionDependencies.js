@@ -0,0 +1,201 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+const domain = { origin: 'login.metamask.io' };
+
+function createController (requestUserApproval) {
+  return new CapabilitiesController({
+    requestUserApproval: requestUserApproval || ((reqPerms) => Promise.resolve(reqPerms.permissions)),
+    restrictedMethods: {
+      'getName': {
+        description: 'Returns user name',
+        method: (_req, res, _next, end) => {
+          res.result = 'Glen Runciter';
+          end();
+        }
+      },
+      'getTitle': {
+        description: 'Returns user title',
+        method: (_req, res, _next, end) => {
+          res.result = 'Mr.';
+          end();
+        }
+      },
+      'greet': {
+        description: 'Greets the current name, if allowed.',
+        dependencies: { required: ['getName'], optional: ['getTitle'] },
+        method: (_req, res, _next, end, engine) => {
+          engine.handle({ method: 'getName' }, (err, nameRes) => {
+            if (err) {
+              res.error = err;
+              return end(err);
+            }
+            res.result = `Greetings, ${nameRes.result}`;
+            end();
+          })
+        }
+      },
+      'farewell': {
+        description: 'Says goodbye, after greeting.',
+        dependencies: { required: ['greet'] },
+        method: (_req, res, _next, end) => {
+          res.result = 'Farewell';
+          end();
+        }
+      },
+    },
+  })
+}
+
+function grantedMethods (ctrl) {
+  return ctrl.getPermissionsForDomain(domain.origin).map(perm => perm.parentCapability).sort();
+}
+
+test('requesting a method also requests its dependencies', async (t) => {
+  let requested;
+  const ctrl = createController((reqPerms) => {
+    requested = reqPerms.permissions;
+    return Promise.resolve(reqPerms.permissions);
+  });
+
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ farewell: {} }],
+  });
+  t.deepEqual(
+    Object.keys(requested).sort(),
+    ['farewell', 'getName', 'getTitle', 'greet'],
+    'includes transitive required and optional dependencies'
+  );
+
+  const result = await sendRpcMethodWithResponse(ctrl, domain, { method: 'greet' });
+  t.equal(result, 'Greetings, Glen Runciter', 'dependent method can call its dependency');
+  t.end();
+})
+
+test('dependencies already held are not requested again', async (t) => {
+  let requested;
+  const ctrl = createController((reqPerms) => {
+    requested = reqPerms.permissions;
+    return Promise.resolve(reqPerms.permissions);
+  });
+
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ getName: {} }],
+  });
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ greet: {} }],
+  });
+  t.deepEqual(Object.keys(requested).sort(), ['getTitle', 'greet'], 'only missing dependencies added');
+  t.end();
+})
+
+test('grants missing a required dependency are refused', async (t) => {
+  const ctrl = createController((reqPerms) => {
+    return Promise.resolve({ greet: reqPerms.permissions.greet });
+  });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ greet: {} }],
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.equal(err.message, `Method 'greet' requires permission for method 'getName'.`, 'names the dependency');
+  }
+  t.deepEqual(grantedMethods(ctrl), [], 'nothing granted');
+  t.end();
+})
+
+test('optional dependencies may be denied', async (t) => {
+  const ctrl = createController((reqPerms) => {
+    const { greet, getName } = reqPerms.permissions;
+    return Promise.resolve({ greet, getName });
+  });
+
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ greet: {} }],
+  });
+  t.deepEqual(grantedMethods(ctrl), ['getName', 'greet'], 'granted without optional dependency');
+  t.end();
+})
+
+test('revoking a dependency revokes its dependents', async (t) => {
+  const ctrl = createController();
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ farewell: {} }],
+  });
+
+  const revoked = [];
+  ctrl.on('permissionsRevoked', ({ permissions }) => {
+    permissions.forEach(({ method }) => revoked.push(method));
+  });
+
+  ctrl.revokePermissions(domain.origin, ['getName']);
+  t.deepEqual(grantedMethods(ctrl), ['getTitle'], 'transitive dependents revoked');
+  t.deepEqual(revoked.sort(), ['farewell', 'getName', 'greet'], 'dependents reported as revoked');
+
+  ctrl.revokePermissions(domain.origin, ['getTitle']);
+  t.deepEqual(grantedMethods(ctrl), [], 'optional dependency revoked alone');
+  t.end();
+})
+
+test('revoking a delegated dependency revokes the delegatee\'s dependents', async (t) => {
+  const ctrl = createController();
+  const bob = 'bob.io';
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ getName: {} }],
+  });
+  ctrl.delegatePermissions(domain.origin, bob, { getName: {} });
+  await sendRpcMethodWithResponse(ctrl, { origin: bob }, {
+    method: 'requestPermissions',
+    params: [{ greet: {} }],
+  });
+  t.deepEqual(
+    ctrl.getPermissionsForDomain(bob).map(perm => ctrl.getMethodForCapability(perm)).sort(),
+    ['getName', 'getTitle', 'greet'], 'delegatee holds its own dependent'
+  );
+
+  const revoked = [];
+  ctrl.on('permissionsRevoked', ({ origin, permissions }) => {
+    permissions.forEach(({ method }) => revoked.push(`${origin}:${method}`));
+  });
+
+  ctrl.revokePermissions(domain.origin, ['getName']);
+  t.deepEqual(
+    ctrl.getPermissionsForDomain(bob).map(perm => perm.parentCapability), ['getTitle'],
+    'delegatee dependent revoked'
+  );
+  t.deepEqual(
+    revoked.sort(), [`${bob}:getName`, `${bob}:greet`, `${domain.origin}:getName`],
+    'dependent reported as revoked'
+  );
+  t.end();
+})
+
+test('unknown dependencies are rejected on construction', async (t) => {
+  t.throws(() => {
+    new CapabilitiesController({
+      requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+      restrictedMethods: {
+        'greet': {
+          description: 'Greets',
+          dependencies: { required: ['getName'] },
+          method: (_req, res, _next, end) => end(),
+        },
+      },
+    })
+  }, /Unknown dependency 'getName' of restricted method 'greet'\./u, 'throws');
+  t.end();
+})
@@ -0,0 +1,201 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const JsonRpcEngine = require('json-rpc-engine');
+
+const origin = 'https://dapp.io';
+
+function createController (config = {}) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+    ...config,
+  })
+}
+
+function send (engine, req) {
+  return new Promise((resolve, reject) => {
+    engine.handle(req, (err, res) => (err ? reject(err) : resolve(res.result)));
+  });
+}
+
+function collectNotifications (engine) {
+  const notifications = [];
+  engine.on('notification', notification => notifications.push(notification));
+  return notifications;
+}
+
+function methodsOf (notification) {
+  return notification.params[0].map(perm => perm.parentCapability).sort();
+}
+
+test('permissioned engines are notified of grants and revocations', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const notifications = collectNotifications(engine);
+
+  await send(engine, { method: 'requestPermissions', params: [{ read: {}, write: {} }] });
+  t.equal(notifications.length, 1, 'notified of the grant');
+  t.equal(notifications[0].jsonrpc, '2.0', 'is a JSON-RPC message');
+  t.equal(notifications[0].method, 'permissionsChanged', 'is a permissionsChanged notification');
+  t.notOk('id' in notifications[0], 'has no id');
+  t.deepEqual(methodsOf(notifications[0]), ['read', 'write'], 'carries the new permissions');
+
+  ctrl.removePermissionsFor(origin, [{ parentCapability: 'write' }]);
+  t.equal(notifications.length, 2, 'notified of the revocation');
+  t.deepEqual(
+    notifications[1].params[0],
+    await send(engine, { method: 'getPermissions' }),
+    'carries the getPermissions result'
+  );
+
+  ctrl.addCaveatFor(origin, 'read', { type: 'forceParams', value: [], name: 'c' });
+  t.equal(notifications.length, 3, 'notified of caveat changes');
+  t.equal(notifications[2].params[0][0].caveats.length, 1, 'with the new caveat');
+  t.end();
+})
+
+test('connections are only notified of changes to their own permissions', async (t) => {
+  const ctrl = createController({ methodPrefix: 'wallet_' });
+  const engine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const otherEngine = ctrl.createPermissionedEngine('https://other.io', undefined, true);
+  const notifications = collectNotifications(engine);
+  const otherNotifications = collectNotifications(otherEngine);
+
+  await send(engine, { method: 'wallet_requestPermissions', params: [{ read: {} }] });
+  t.equal(notifications.length, 1, 'granted domain notified');
+  t.equal(notifications[0].method, 'wallet_permissionsChanged', 'method is prefixed');
+  t.equal(otherNotifications.length, 0, 'other domain not notified');
+
+  await send(engine, { method: 'read' });
+  t.equal(notifications.length, 1, 'metadata changes do not notify');
+  t.end();
+})
+
+test('changes of groups and patterns notify the affected domains', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const notifications = collectNotifications(engine);
+
+  await new Promise((resolve) => {
+    ctrl.grantNewPermissions('group:partners', { read: {} }, {}, resolve);
+  });
+  t.equal(notifications.length, 0, 'not notified while not a member');
+
+  ctrl.setSubjectGroup('partners', [origin]);
+  t.equal(notifications.length, 1, 'notified when added to the group');
+  t.deepEqual(methodsOf(notifications[0]), ['read'], 'with the group permissions');
+  t.end();
+})
+
+test('bound middleware connections can be tracked and untracked', async (t) => {
+  const ctrl = createController();
+  const engine = new JsonRpcEngine();
+  engine.push(ctrl.createBoundMiddleware(origin, undefined, engine));
+  const notifications = collectNotifications(engine);
+
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  t.equal(notifications.length, 1, 'bound middleware connection notified');
+
+  ctrl.untrackConnection(origin, engine);
+  ctrl.removePermissionsFor(origin, [{ parentCapability: 'read' }]);
+  t.equal(notifications.length, 1, 'untracked connection not notified');
+
+  const connection = { emit: (_event, notification) => notifications.push(notification) };
+  ctrl.trackConnection(origin, connection);
+  ctrl.trackConnection(origin, connection);
+  await send(engine, { method: 'requestPermissions', params: [{ write: {} }] });
+  t.equal(notifications.length, 2, 'tracked connection notified once');
+
+  ctrl.untrackConnection(origin);
+  ctrl.removePermissionsFor(origin, [{ parentCapability: 'write' }]);
+  t.equal(notifications.length, 2, 'all connections untracked');
+  t.end();
+})
+
+test('permissioned engines are only tracked on request', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin);
+  const notifications = collectNotifications(engine);
+
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  t.equal(notifications.length, 0, 'untracked engine not notified');
+  t.end();
+})
+
+function wait () {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+async function expectRejected (t, request, message) {
+  try {
+    await request;
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, 4001, message);
+  }
+}
+
+test('untracking a connection rejects the pending requests made through it', async (t) => {
+  const ctrl = createController({
+    requestUserApproval: () => Promise.resolve(),
+    maxPendingPermissionsRequests: 2,
+  });
+  const engine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const otherEngine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const request = send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  const otherRequest = send(otherEngine, { method: 'requestPermissions', params: [{ write: {} }] });
+  await wait();
+
+  ctrl.untrackConnection(origin, engine);
+  await expectRejected(t, request, 'request of the closed connection rejected');
+  await wait();
+
+  const pending = ctrl.getPermissionsRequests();
+  t.deepEqual(pending.map(r => Object.keys(r.permissions)), [['write']], 'request of the other connection prompted');
+  ctrl.approvePermissionsRequest(pending[0].metadata.id, { write: {} });
+  t.deepEqual((await otherRequest).granted, ['write'], 'and can be approved');
+  t.end();
+})
+
+test('requests shared with another connection stay pending', async (t) => {
+  const ctrl = createController({ requestUserApproval: () => Promise.resolve() });
+  const engine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const otherEngine = ctrl.createPermissionedEngine(origin, undefined, true);
+  const request = send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  const otherRequest = send(otherEngine, { method: 'requestPermissions', params: [{ read: {} }] });
+  await wait();
+
+  ctrl.untrackConnection(origin, engine);
+  await expectRejected(t, request, 'request of the closed connection rejected');
+  t.equal(ctrl.getPermissionsRequests().length, 1, 'shared request still pending');
+  ctrl.approvePermissionsRequest(ctrl.getPermissionsRequests()[0].metadata.id, { read: {} });
+  t.deepEqual((await otherRequest).granted, ['read'], 'and can be approved');
+  t.end();
+})
+
+test('untracking an origin without connections keeps its requests', async (t) => {
+  const ctrl = createController({ requestUserApproval: () => Promise.resolve() });
+  const engine = ctrl.createPermissionedEngine(origin);
+  send(engine, { method: 'requestPermissions', params: [{ read: {} }] }).catch(() => undefined);
+  await wait();
+
+  ctrl.untrackConnection(origin);
+  t.equal(ctrl.getPermissionsRequests().length, 1, 'request of an untracked engine still pending');
+  ctrl.rejectPermissionsRequestsFor(origin);
+  t.end();
+})
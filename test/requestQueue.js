@@ -0,0 +1,135 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const RESOURCE_UNAVAILABLE_CODE = rpcErrors.ERROR_CODES.rpc.resourceUnavailable
+const USER_REJECTED_CODE = rpcErrors.ERROR_CODES.provider.userRejectedRequest
+
+const domain = { origin: 'www.metamask.io' };
+
+function createController (maxPendingPermissionsRequests) {
+  const prompts = [];
+  const ctrl = new CapabilitiesController({
+    // leaves requests pending, to be settled by id
+    requestUserApproval: (permissionsRequest) => {
+      prompts.push(permissionsRequest);
+      return Promise.resolve();
+    },
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+    maxPendingPermissionsRequests,
+  })
+  return { ctrl, prompts };
+}
+
+function requestPermissions (ctrl, permissions, origin = domain.origin) {
+  return sendRpcMethodWithResponse(ctrl, { origin }, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+function approveLast (ctrl, prompts) {
+  const { metadata, permissions } = prompts[prompts.length - 1];
+  ctrl.approvePermissionsRequest(metadata.id, permissions);
+}
+
+function wait () {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+test('identical pending requests share the same result', async (t) => {
+  const { ctrl, prompts } = createController();
+  const first = requestPermissions(ctrl, { read: {} });
+  const second = requestPermissions(ctrl, { read: {} });
+  await wait();
+
+  t.equal(prompts.length, 1, 'prompts once');
+  t.equal(ctrl.getPermissionsRequests().length, 1, 'stores one request');
+
+  approveLast(ctrl, prompts);
+  const [firstResult, secondResult] = await Promise.all([first, second]);
+  t.deepEqual(firstResult, secondResult, 'both requests get the same result');
+  t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 1, 'grants once');
+  t.end();
+})
+
+test('differing pending requests are rejected beyond the limit', async (t) => {
+  const { ctrl, prompts } = createController();
+  const first = requestPermissions(ctrl, { read: {} });
+
+  try {
+    await requestPermissions(ctrl, { write: {} });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, RESOURCE_UNAVAILABLE_CODE, 'resource unavailable error');
+    t.ok(/already pending/.test(err.message), 'says a request is already pending');
+  }
+
+  const other = requestPermissions(ctrl, { write: {} }, 'other.com');
+  await wait();
+  t.equal(prompts.length, 2, 'other origins are prompted');
+
+  approveLast(ctrl, prompts);
+  approveLast(ctrl, prompts.slice(0, 1));
+  t.ok(await other, 'other request approved');
+  t.ok(await first, 'pending request unaffected');
+  t.end();
+})
+
+test('differing pending requests are queued within the limit', async (t) => {
+  const { ctrl, prompts } = createController(2);
+  const first = requestPermissions(ctrl, { read: {} });
+  const second = requestPermissions(ctrl, { write: {} });
+  await wait();
+
+  t.equal(prompts.length, 1, 'prompts for the first request only');
+  t.deepEqual(ctrl.getPermissionsRequests().map(r => Object.keys(r.permissions)), [['read']], 'stores the prompted request');
+
+  approveLast(ctrl, prompts);
+  await first;
+  await wait();
+
+  t.equal(prompts.length, 2, 'prompts for the queued request');
+  t.deepEqual(Object.keys(prompts[1].permissions), ['write'], 'prompts for the queued permissions');
+  approveLast(ctrl, prompts);
+  await second;
+  t.equal(ctrl.getPermissionsForDomain(domain.origin).length, 2, 'grants both requests');
+  t.end();
+})
+
+test('queued requests are rejected with their origin', async (t) => {
+  const { ctrl } = createController(2);
+  const requests = [
+    requestPermissions(ctrl, { read: {} }),
+    requestPermissions(ctrl, { write: {} }),
+  ];
+  await wait();
+
+  ctrl.rejectPermissionsRequestsFor(domain.origin);
+  for (const request of requests) {
+    try {
+      await request;
+      t.notOk(true, 'should have thrown');
+    } catch (err) {
+      t.equal(err.code, USER_REJECTED_CODE, 'request rejected');
+    }
+  }
+  t.deepEqual(ctrl.getPermissionsRequests(), [], 'no requests left');
+  t.end();
+})
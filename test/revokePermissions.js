@@ -0,0 +1,121 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+const METHOD_NOT_FOUND_CODE = rpcErrors.ERROR_CODES.rpc.methodNotFound
+
+const domain = { origin: 'www.metamask.io' };
+const otherDomain = { origin: 'other.com' };
+
+function createController () {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+  })
+}
+
+async function grant (ctrl, origin, permissions) {
+  await sendRpcMethodWithResponse(ctrl, { origin }, {
+    method: 'requestPermissions',
+    params: [permissions],
+  });
+}
+
+function revoke (ctrl, origin, params) {
+  return sendRpcMethodWithResponse(ctrl, { origin }, {
+    method: 'revokePermissions',
+    params,
+  });
+}
+
+test('revokePermissions removes permissions by method name', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, domain.origin, { read: {}, write: {} });
+  await grant(ctrl, otherDomain.origin, { write: {} });
+
+  try {
+    const remaining = await revoke(ctrl, domain.origin, [['write']]);
+    t.deepEqual(remaining.map(p => p.parentCapability), ['read'], 'returns remaining permissions');
+    t.notOk(ctrl.getPermission(domain.origin, 'write'), 'permission revoked');
+    t.ok(ctrl.getPermission(otherDomain.origin, 'write'), 'other origin unaffected');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('revokePermissions removes permissions by capability id', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, domain.origin, { read: {}, write: {} });
+  await grant(ctrl, otherDomain.origin, { read: {} });
+  const { id } = ctrl.getPermission(domain.origin, 'read');
+  const otherId = ctrl.getPermission(otherDomain.origin, 'read').id;
+
+  try {
+    const remaining = await revoke(ctrl, domain.origin, [[id]]);
+    t.deepEqual(remaining.map(p => p.parentCapability), ['write'], 'returns remaining permissions');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+
+  try {
+    await revoke(ctrl, domain.origin, [[otherId]]);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, METHOD_NOT_FOUND_CODE, 'rejects ids of other origins');
+    t.ok(ctrl.getPermission(otherDomain.origin, 'read'), 'other origin unaffected');
+  }
+  t.end();
+})
+
+test('revokePermissions revokes permissions delegated from the revoked ones', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, domain.origin, { read: {} });
+  ctrl.delegatePermissions(domain.origin, otherDomain.origin, { read: {} });
+
+  try {
+    await revoke(ctrl, domain.origin, [['read']]);
+    t.notOk(ctrl.getPermission(otherDomain.origin, 'read'), 'delegated permission revoked');
+  } catch (err) {
+    t.notOk(err, 'should not throw');
+  }
+  t.end();
+})
+
+test('revokePermissions rejects invalid requests', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, domain.origin, { read: {} });
+
+  try {
+    await revoke(ctrl, domain.origin, [{ read: {} }]);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'rejects malformed params');
+  }
+
+  try {
+    await revoke(ctrl, domain.origin, [['read', 'unknown']]);
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, METHOD_NOT_FOUND_CODE, 'rejects unknown methods');
+    t.ok(ctrl.getPermission(domain.origin, 'read'), 'nothing revoked');
+  }
+  t.end();
+})
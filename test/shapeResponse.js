@@ -0,0 +1,95 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+const domain = { origin: 'www.metamask.io' };
+
+const accounts = [
+  { address: '0xABC', balance: '0x1', meta: { label: 'main', secret: 's1' } },
+  { address: '0xdef', balance: '0x2', meta: { label: 'savings', secret: 's2' } },
+  { address: '0x123', balance: '0x3', meta: { label: 'other', secret: 's3' } },
+]
+
+function createController () {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'accounts': {
+        description: 'Lists accounts',
+        method: (_req, res, _next, end) => {
+          res.result = accounts;
+          end();
+        }
+      },
+      'wallet': {
+        description: 'Describes the wallet',
+        method: (_req, res, _next, end) => {
+          res.result = { name: 'wallet', accounts };
+          end();
+        }
+      },
+    },
+  })
+}
+
+async function callShaped (method, shape) {
+  const ctrl = createController();
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{ [method]: { caveats: [{ type: 'shapeResponse', value: shape }] } }],
+  });
+  return sendRpcMethodWithResponse(ctrl, domain, { method });
+}
+
+test('shapeResponse caveat filters arrays of objects by field', async (t) => {
+  const result = await callShaped('accounts', {
+    filter: { field: 'address', in: ['0xabc', '0xDEF'] },
+  });
+  t.deepEqual(result.map(a => a.address), ['0xABC', '0xdef'], 'compares hex strings case-insensitively');
+
+  const labeled = await callShaped('accounts', {
+    filter: { field: 'meta.label', equals: 'other' },
+  });
+  t.deepEqual(labeled.map(a => a.address), ['0x123'], 'filters by nested field');
+  t.end();
+})
+
+test('shapeResponse caveat picks, omits and limits', async (t) => {
+  const picked = await callShaped('accounts', { pick: ['address', 'meta.label'], limit: 2 });
+  t.deepEqual(picked, [
+    { address: '0xABC', meta: { label: 'main' } },
+    { address: '0xdef', meta: { label: 'savings' } },
+  ], 'picks paths of each item and limits the array');
+
+  const omitted = await callShaped('accounts', { omit: ['meta.secret', 'balance'], limit: 1 });
+  t.deepEqual(omitted, [{ address: '0xABC', meta: { label: 'main' } }], 'omits paths of each item');
+  t.equal(accounts[0].meta.secret, 's1', 'does not modify the original result');
+  t.end();
+})
+
+test('shapeResponse caveat shapes values nested in the result', async (t) => {
+  const result = await callShaped('wallet', {
+    path: 'accounts',
+    filter: { field: 'balance', in: ['0x2', '0x3'] },
+    pick: ['address'],
+  });
+  t.deepEqual(result, {
+    name: 'wallet',
+    accounts: [{ address: '0xdef' }, { address: '0x123' }],
+  }, 'shapes the value at the path');
+  t.end();
+})
+
+test('shapeResponse caveat with an invalid shape is rejected when granted', async (t) => {
+  try {
+    await callShaped('accounts', { filter: { equals: 1 } });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid request error');
+    t.ok(err.message.indexOf('value.filter.field') !== -1, 'names the missing field');
+  }
+  t.end();
+})
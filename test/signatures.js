@@ -0,0 +1,165 @@
+const test = require('tape')
+const crypto = require('crypto')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const domain = { origin: 'www.metamask.io' };
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+function createController (signing, state) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'write': {
+        description: 'Writes the params',
+        method: (req, res, _next, end) => {
+          res.result = req.params;
+          end();
+        }
+      },
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+    signing,
+  }, state)
+}
+
+async function grantSignedPermissions () {
+  const ctrl = createController({ creator: 'wallet', privateKey });
+  await sendRpcMethodWithResponse(ctrl, domain, {
+    method: 'requestPermissions',
+    params: [{
+      write: { caveats: [{ type: 'forceParams', value: ['a'], name: 'force' }] },
+      read: {},
+    }],
+  });
+  return ctrl;
+}
+
+test('issued permissions are signed', async (t) => {
+  const ctrl = await grantSignedPermissions();
+  const perm = ctrl.getPermission(domain.origin, 'write');
+
+  t.ok(perm.proof, 'has a proof');
+  t.equal(perm.proof.proofPurpose, 'capabilityDelegation', 'has the delegation purpose');
+  t.equal(perm.proof.creator, 'wallet', 'has the creator');
+  t.ok(ctrl.verifyPermission(perm), 'proof verifies');
+
+  ctrl.updateCaveatFor(domain.origin, 'write', 'force', ['b']);
+  t.ok(ctrl.verifyPermission(ctrl.getPermission(domain.origin, 'write')), 'updated permission is re-signed');
+
+  ctrl.delegatePermissions(domain.origin, 'other.com', { read: {} });
+  t.ok(ctrl.verifyPermission(ctrl.getPermission('other.com', 'read')), 'delegated permission is signed');
+  t.end();
+})
+
+test('tampered permissions are removed when loading state', async (t) => {
+  const signed = await grantSignedPermissions();
+  const state = JSON.parse(JSON.stringify(signed.serialize()));
+  state.domains[domain.origin].permissions
+    .find(p => p.parentCapability === 'write').caveats = [];
+
+  const ctrl = createController({ creator: 'wallet', publicKey }, state);
+
+  t.notOk(ctrl.getPermission(domain.origin, 'write'), 'tampered permission removed');
+  t.ok(ctrl.getPermission(domain.origin, 'read'), 'valid permission kept');
+  t.end();
+})
+
+test('unsigned permissions are removed when loading state', async (t) => {
+  const ctrl = createController({ creator: 'wallet', publicKey }, {
+    domains: {
+      [domain.origin]: {
+        permissions: [{ parentCapability: 'read', id: '1', invoker: domain.origin }],
+      },
+    },
+  });
+
+  t.deepEqual(ctrl.getDomains(), {}, 'unsigned permission removed');
+  t.end();
+})
+
+test('importDomains rejects tampered permissions', async (t) => {
+  const signed = await grantSignedPermissions();
+  const domains = JSON.parse(JSON.stringify(signed.getDomains()));
+  const perms = domains[domain.origin].permissions;
+  perms.find(p => p.parentCapability === 'read').invoker = 'evil.com';
+
+  const ctrl = createController({ creator: 'wallet', publicKey });
+  const rejected = ctrl.importDomains(domains);
+
+  t.deepEqual(
+    rejected[domain.origin].permissions.map(p => p.parentCapability),
+    ['read'],
+    'reports the tampered permission'
+  );
+  t.ok(ctrl.getPermission(domain.origin, 'write'), 'imports the valid permission');
+  t.notOk(ctrl.getPermission(domain.origin, 'read'), 'does not import the tampered permission');
+  t.end();
+})
+
+test('signed permissions moved to another domain are removed when loading state', async (t) => {
+  const signed = await grantSignedPermissions();
+  const state = JSON.parse(JSON.stringify(signed.serialize()));
+  state.domains['evil.com'] = state.domains[domain.origin];
+  delete state.domains[domain.origin];
+
+  const ctrl = createController({ creator: 'wallet', publicKey }, state);
+
+  t.notOk(ctrl.getPermission('evil.com', 'write'), 'moved permission removed');
+  t.deepEqual(ctrl.getDomains(), {}, 'no permissions left');
+  t.end();
+})
+
+test('importDomains rejects signed permissions copied to another domain', async (t) => {
+  const signed = await grantSignedPermissions();
+  const domains = JSON.parse(JSON.stringify(signed.getDomains()));
+  const write = domains[domain.origin].permissions.find(p => p.parentCapability === 'write');
+
+  const ctrl = createController({ creator: 'wallet', publicKey });
+  const rejected = ctrl.importDomains({ ...domains, 'mallory.com': { permissions: [write] } });
+
+  t.deepEqual(
+    rejected['mallory.com'].permissions.map(p => p.parentCapability),
+    ['write'],
+    'reports the copied permission'
+  );
+  t.notOk(ctrl.getPermission('mallory.com', 'write'), 'does not import the copied permission');
+  t.ok(ctrl.getPermission(domain.origin, 'write'), 'imports the original permission');
+  t.end();
+})
+
+test('permissions are not verified without signing config', async (t) => {
+  const ctrl = createController(undefined, {
+    domains: {
+      [domain.origin]: {
+        permissions: [{ parentCapability: 'read', id: '1', invoker: domain.origin }],
+      },
+    },
+  });
+
+  t.ok(ctrl.getPermission(domain.origin, 'read'), 'unsigned permission kept');
+  t.notOk(ctrl.getPermission(domain.origin, 'read').proof, 'no proof added');
+  t.end();
+})
+
+test('permissions are not issued without a private key', async (t) => {
+  const ctrl = createController({ creator: 'wallet', publicKey });
+
+  try {
+    await sendRpcMethodWithResponse(ctrl, domain, {
+      method: 'requestPermissions',
+      params: [{ read: {} }],
+    });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.ok(/private key/u.test(err.message), 'names the missing private key');
+    t.deepEqual(ctrl.getDomains(), {}, 'no permission granted');
+  }
+  t.end();
+})
@@ -0,0 +1,173 @@
+const test = require('tape')
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const {
+  CapabilitiesController,
+  createJsonFileStorageAdapter,
+  createMemoryStorageAdapter,
+} = require('../dist');
+
+const domain = { origin: 'www.metamask.io' };
+
+function wait (ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function createController (storage) {
+  return new CapabilitiesController({
+    storage,
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+  })
+}
+
+function grantRead (ctrl) {
+  return new Promise((resolve, reject) => {
+    ctrl.grantNewPermissions(domain.origin, { read: {} }, {}, err => (err ? reject(err) : resolve()));
+  });
+}
+
+function countingAdapter () {
+  const adapter = createMemoryStorageAdapter();
+  const saved = [];
+  return {
+    saved,
+    adapter: {
+      ...adapter,
+      save: (state) => {
+        saved.push(JSON.parse(JSON.stringify(state)));
+        return adapter.save(state);
+      },
+    },
+  };
+}
+
+function tempFilePath () {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rpc-cap-'));
+  return { dir, file: path.join(dir, 'state.json') };
+}
+
+test('state changes are saved, debounced', async (t) => {
+  const { adapter, saved } = countingAdapter();
+  const ctrl = createController({ adapter, debounce: 20 });
+
+  await grantRead(ctrl);
+  ctrl.removePermissionsFor(domain.origin, [{ parentCapability: 'read' }]);
+  await grantRead(ctrl);
+  t.equal(saved.length, 0, 'nothing saved within the debounce delay');
+
+  await wait(40);
+  t.equal(saved.length, 1, 'changes saved at once');
+  t.ok(saved[0].domains[domain.origin], 'latest state saved');
+  t.end();
+})
+
+test('flushStorage saves right away', async (t) => {
+  const { adapter, saved } = countingAdapter();
+  const ctrl = createController({ adapter, debounce: 1000 });
+
+  await grantRead(ctrl);
+  await ctrl.flushStorage();
+  t.equal(saved.length, 1, 'saved');
+  await wait(20);
+  t.equal(saved.length, 1, 'pending save cancelled');
+  t.end();
+})
+
+test('state is loaded from storage', async (t) => {
+  const adapter = createMemoryStorageAdapter();
+  const ctrl = createController({ adapter, debounce: 0 });
+  await grantRead(ctrl);
+  await ctrl.flushStorage();
+
+  const restored = createController({ adapter });
+  t.notOk(restored.getPermission(domain.origin, 'read'), 'not loaded on construction');
+  t.equal(await restored.loadFromStorage(), true, 'resolves true');
+  t.ok(restored.getPermission(domain.origin, 'read'), 'permissions loaded');
+  t.ok(restored.serialize().permissionsDescriptions.read, 'default state kept');
+
+  const empty = createController({ adapter: createMemoryStorageAdapter() });
+  t.equal(await empty.loadFromStorage(), false, 'resolves false if nothing is stored');
+  await restored.flushStorage();
+  t.end();
+})
+
+test('load failures keep the current state', async (t) => {
+  const errors = [];
+  const adapter = createMemoryStorageAdapter({ version: 999, domains: {} });
+  const ctrl = createController({ adapter });
+  ctrl.on('storageError', event => errors.push(event));
+  await grantRead(ctrl);
+
+  t.equal(await ctrl.loadFromStorage(), false, 'resolves false');
+  t.ok(ctrl.getPermission(domain.origin, 'read'), 'current state kept');
+  t.equal(errors.length, 1, 'failure reported');
+  t.equal(errors[0].operation, 'load', 'as a load failure');
+  t.ok(/Unsupported state version/u.test(errors[0].error.message), 'with the error');
+  await ctrl.flushStorage();
+  t.end();
+})
+
+test('save failures are reported', async (t) => {
+  const adapter = {
+    ...createMemoryStorageAdapter(),
+    save: () => Promise.reject(new Error('Disk full.')),
+  };
+  const ctrl = createController({ adapter, debounce: 0 });
+  const errors = [];
+  ctrl.on('storageError', event => errors.push(event));
+
+  await grantRead(ctrl);
+  await wait(10);
+  t.equal(errors.length, 1, 'failure reported');
+  t.equal(errors[0].operation, 'save', 'as a save failure');
+  t.end();
+})
+
+test('JSON file storage writes atomically and loads', async (t) => {
+  const { dir, file } = tempFilePath();
+  const adapter = createJsonFileStorageAdapter(file);
+  t.equal(await adapter.load(), undefined, 'nothing stored initially');
+
+  const ctrl = createController({ adapter });
+  await grantRead(ctrl);
+  await ctrl.flushStorage();
+  t.ok(JSON.parse(fs.readFileSync(file, 'utf8')).domains[domain.origin], 'state written');
+  t.deepEqual(fs.readdirSync(dir), ['state.json'], 'no temporary files left');
+
+  const restored = createController({ adapter: createJsonFileStorageAdapter(file) });
+  await restored.loadFromStorage();
+  t.ok(restored.getPermission(domain.origin, 'read'), 'state loaded');
+
+  await Promise.all([ctrl.flushStorage(), ctrl.flushStorage(), restored.flushStorage()]);
+  t.deepEqual(fs.readdirSync(dir), ['state.json'], 'concurrent saves leave one file');
+  fs.rmSync(dir, { recursive: true });
+  t.end();
+})
+
+test('corrupt JSON files are moved aside', async (t) => {
+  const { dir, file } = tempFilePath();
+  fs.writeFileSync(file, '{"domains": ');
+  const ctrl = createController({ adapter: createJsonFileStorageAdapter(file) });
+  const errors = [];
+  ctrl.on('storageError', event => errors.push(event));
+
+  t.equal(await ctrl.loadFromStorage(), false, 'loading fails');
+  t.equal(errors.length, 1, 'failure reported');
+  t.equal(fs.readFileSync(`${file}.corrupt`, 'utf8'), '{"domains": ', 'corrupt file kept');
+
+  await grantRead(ctrl);
+  await ctrl.flushStorage();
+  t.ok(JSON.parse(fs.readFileSync(file, 'utf8')).domains[domain.origin], 'new state written');
+  fs.rmSync(dir, { recursive: true });
+  t.end();
+})
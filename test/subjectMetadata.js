@@ -0,0 +1,138 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const rpcErrors = require('eth-json-rpc-errors')
+
+const INVALID_REQUEST_CODE = rpcErrors.ERROR_CODES.rpc.invalidRequest
+
+const origin = 'https://dapp.io';
+const details = { name: 'Dapp', iconUrl: 'https://dapp.io/icon.png', subjectType: 'website' };
+
+function createController (state) {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+    },
+  }, state)
+}
+
+function send (engine, req) {
+  return new Promise((resolve, reject) => {
+    engine.handle(req, (err, res) => (err ? reject(err) : resolve(res.result)));
+  });
+}
+
+test('subject details are stored when permissions are granted', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, details);
+  t.equal(ctrl.getSubjectMetadata(origin), undefined, 'no metadata before grant');
+
+  const before = Date.now();
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  const metadata = ctrl.getSubjectMetadata(origin);
+  t.deepEqual(
+    { ...metadata, firstSeen: undefined },
+    { ...details, firstSeen: undefined },
+    'details stored'
+  );
+  t.ok(metadata.firstSeen >= before, 'firstSeen set');
+  t.equal(metadata.lastUsed, undefined, 'not used yet');
+  t.deepEqual(ctrl.serialize().domains[origin].metadata, metadata, 'kept in the domain entry');
+  t.end();
+})
+
+test('lastUsed is updated when restricted methods are called', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, details);
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+  const { firstSeen } = ctrl.getSubjectMetadata(origin);
+
+  const notifications = [];
+  ctrl.trackConnection(origin, { emit: (_event, n) => notifications.push(n) });
+  let updates = 0;
+  ctrl.subscribe(() => updates++);
+
+  const realNow = Date.now;
+  let now = realNow();
+  Date.now = () => now;
+  try {
+    await send(engine, { method: 'read' });
+    const metadata = ctrl.getSubjectMetadata(origin);
+    t.equal(metadata.lastUsed, now, 'lastUsed set');
+    t.equal(metadata.firstSeen, firstSeen, 'firstSeen unchanged');
+
+    const updatesBefore = updates;
+    now += 1000;
+    await send(engine, { method: 'read' });
+    t.equal(updates, updatesBefore, 'state not updated again within a minute');
+    t.equal(ctrl.getSubjectMetadata(origin).lastUsed, now - 1000, 'lastUsed kept');
+
+    now += 60 * 1000;
+    await send(engine, { method: 'read' });
+    t.equal(ctrl.getSubjectMetadata(origin).lastUsed, now, 'lastUsed updated after a minute');
+    t.deepEqual(notifications, [], 'connections not notified');
+  } finally {
+    Date.now = realNow;
+  }
+  t.end();
+})
+
+test('subject metadata can be updated', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin);
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+
+  ctrl.updateSubjectMetadata(origin, { name: 'Renamed', subjectType: 'extension', extensionId: 'abc' });
+  const metadata = ctrl.getSubjectMetadata(origin);
+  t.equal(metadata.name, 'Renamed', 'name updated');
+  t.equal(metadata.extensionId, 'abc', 'extension id updated');
+
+  try {
+    ctrl.updateSubjectMetadata(origin, { subjectType: 'robot' });
+    t.notOk(true, 'should have thrown');
+  } catch (err) {
+    t.equal(err.code, INVALID_REQUEST_CODE, 'invalid details rejected');
+    t.ok(err.message.indexOf('details.subjectType') !== -1, 'names the invalid field');
+  }
+
+  t.throws(
+    () => ctrl.updateSubjectMetadata('https://unknown.io', { name: 'x' }),
+    /No permissions exist for domain/u,
+    'domains without permissions rejected'
+  );
+  t.throws(() => ctrl.createBoundMiddleware(origin, { icon: 'x' }), /Invalid subject metadata/u, 'bound details validated');
+  t.end();
+})
+
+test('subject metadata is pruned with the last permission', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, details);
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+
+  ctrl.removePermissionsFor(origin, [{ parentCapability: 'read' }]);
+  t.equal(ctrl.getSubjectMetadata(origin), undefined, 'metadata removed');
+  t.notOk(ctrl.serialize().domains[origin], 'domain entry removed');
+  t.end();
+})
+
+test('domain entries with subject metadata survive loading', async (t) => {
+  const ctrl = createController();
+  const engine = ctrl.createPermissionedEngine(origin, details);
+  await send(engine, { method: 'requestPermissions', params: [{ read: {} }] });
+
+  const restored = createController(JSON.parse(JSON.stringify(ctrl.serialize())));
+  t.deepEqual(restored.getSubjectMetadata(origin), ctrl.getSubjectMetadata(origin), 'metadata restored');
+  t.notOk(restored.serialize().quarantinedDomains, 'nothing quarantined');
+
+  const state = JSON.parse(JSON.stringify(ctrl.serialize()));
+  state.domains[origin].metadata = 'corrupt';
+  const quarantined = createController(state).serialize().quarantinedDomains;
+  t.equal(quarantined[origin].reason, 'Domain entry has malformed subject metadata.', 'malformed metadata quarantined');
+  t.end();
+})
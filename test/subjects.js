@@ -0,0 +1,143 @@
+const test = require('tape')
+const CapabilitiesController = require('../dist').CapabilitiesController;
+const sendRpcMethodWithResponse = require('./lib/utils').sendRpcMethodWithResponse;
+
+const UNAUTHORIZED_CODE = 4100
+
+function createController () {
+  return new CapabilitiesController({
+    requestUserApproval: (reqPerms) => Promise.resolve(reqPerms.permissions),
+    restrictedMethods: {
+      'read': {
+        description: 'Reads things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Read';
+          end();
+        }
+      },
+      'write': {
+        description: 'Writes things',
+        method: (_req, res, _next, end) => {
+          res.result = 'Written';
+          end();
+        }
+      },
+    },
+  })
+}
+
+function grant (ctrl, grantee, approved) {
+  return new Promise((resolve, reject) => {
+    const res = {};
+    ctrl.grantNewPermissions(grantee, approved, res, (err) => {
+      return err ? reject(err) : resolve(res.result);
+    });
+  });
+}
+
+async function callSucceeds (ctrl, origin, method) {
+  try {
+    await sendRpcMethodWithResponse(ctrl, { origin }, { method });
+    return true;
+  } catch (err) {
+    if (err.code !== UNAUTHORIZED_CODE) {
+      throw err;
+    }
+    return false;
+  }
+}
+
+test('origin pattern grants apply to matching origins', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, 'https://*.example.com', { read: {} });
+
+  t.ok(await callSucceeds(ctrl, 'https://a.example.com', 'read'), 'subdomain permitted');
+  t.ok(await callSucceeds(ctrl, 'https://a.b.example.com', 'read'), 'nested subdomain permitted');
+  t.notOk(await callSucceeds(ctrl, 'https://example.com', 'read'), 'bare domain not permitted');
+  t.notOk(await callSucceeds(ctrl, 'http://a.example.com', 'read'), 'other scheme not permitted');
+  t.notOk(await callSucceeds(ctrl, 'https://a.example.com.evil.com', 'read'), 'suffixed domain not permitted');
+  t.notOk(await callSucceeds(ctrl, 'https://a.example.com', 'write'), 'other method not permitted');
+
+  const permissions = await sendRpcMethodWithResponse(
+    ctrl, { origin: 'https://a.example.com' }, { method: 'getPermissions' }
+  );
+  t.equal(permissions.length, 1, 'getPermissions includes the pattern grant');
+  t.equal(permissions[0].invoker, 'https://*.example.com', 'invoker is the pattern');
+  t.end();
+})
+
+test('subject group grants apply to group members', async (t) => {
+  const ctrl = createController();
+  ctrl.setSubjectGroup('partners', ['https://a.com', 'https://b.com']);
+  await grant(ctrl, 'group:partners', { write: {} });
+
+  t.ok(await callSucceeds(ctrl, 'https://a.com', 'write'), 'member permitted');
+  t.notOk(await callSucceeds(ctrl, 'https://c.com', 'write'), 'non-member not permitted');
+
+  ctrl.setSubjectGroup('partners', ['https://c.com']);
+  t.notOk(await callSucceeds(ctrl, 'https://a.com', 'write'), 'removed member not permitted');
+  t.ok(await callSucceeds(ctrl, 'https://c.com', 'write'), 'added member permitted');
+
+  ctrl.setSubjectGroup('partners', []);
+  t.deepEqual(ctrl.getSubjectGroups(), {}, 'empty group removed');
+  t.ok(ctrl.getPermission('group:partners', 'write'), 'group grant remains');
+  t.throws(() => ctrl.setSubjectGroup('group:x', ['https://a.com']), /Invalid subject group name/u, 'prefixed name rejected');
+  t.end();
+})
+
+test('exact grants take precedence over groups, and groups over patterns', async (t) => {
+  const ctrl = createController();
+  const origin = 'https://app.example.com';
+  ctrl.setSubjectGroup('staff', [origin]);
+
+  await grant(ctrl, 'https://*.example.com', { read: {}, write: {} });
+  t.equal(ctrl.getPermission(origin, 'read').invoker, 'https://*.example.com', 'pattern grant applies');
+
+  await grant(ctrl, 'https://*.*.com', { read: {} });
+  t.equal(ctrl.getPermission(origin, 'read').invoker, 'https://*.example.com', 'longer pattern wins');
+
+  await grant(ctrl, 'group:staff', { read: {} });
+  t.equal(ctrl.getPermission(origin, 'read').invoker, 'group:staff', 'group wins over pattern');
+
+  await grant(ctrl, origin, { read: {} });
+  t.equal(ctrl.getPermission(origin, 'read').invoker, origin, 'exact grant wins');
+  t.equal(ctrl.getPermission(origin, 'write').invoker, 'https://*.example.com', 'other methods still inherited');
+
+  const methods = ctrl.getPermissionsForDomain(origin).map(perm => perm.parentCapability).sort();
+  t.deepEqual(methods, ['read', 'write'], 'one permission per method');
+  t.end();
+})
+
+test('caveats of inherited permissions are modified through their grantee', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, 'https://*.example.com', { read: {} });
+
+  t.throws(
+    () => ctrl.addCaveatFor('https://a.example.com', 'read', { type: 'forceParams', value: [], name: 'c' }),
+    /No such permission exists/u,
+    'matching origin cannot modify the pattern grant'
+  );
+  ctrl.addCaveatFor('https://*.example.com', 'read', { type: 'forceParams', value: [], name: 'c' });
+  t.equal(ctrl.getPermission('https://a.example.com', 'read').caveats.length, 1, 'grantee can');
+  t.end();
+})
+
+test('permissions cannot be delegated to origin patterns or subject groups', async (t) => {
+  const ctrl = createController();
+  await grant(ctrl, 'a.com', { read: {} });
+
+  for (const delegatee of ['https://*', 'group:all']) {
+    try {
+      await sendRpcMethodWithResponse(ctrl, { origin: 'a.com' }, {
+        method: 'delegatePermissions',
+        params: [delegatee, { read: {} }],
+      });
+      t.notOk(true, 'should have thrown');
+    } catch (err) {
+      t.ok(/origin pattern or subject group/u.test(err.message), `rejects '${delegatee}'`);
+    }
+  }
+  t.notOk(await callSucceeds(ctrl, 'https://evil.org', 'read'), 'matching origin not permitted');
+  t.deepEqual(Object.keys(ctrl.getDomains()), ['a.com'], 'nothing delegated');
+  t.end();
+})